@@ -1,11 +1,12 @@
 import OmniLearn from './OminiLearn'
+import { I18nProvider } from './components/I18nProvider'
 
 function App() {
 
   return (
-    <>
+    <I18nProvider>
       <OmniLearn/>
-    </>
+    </I18nProvider>
   )
 }
 
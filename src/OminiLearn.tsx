@@ -1,4 +1,4 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import {
     Play,
     FolderOpen,
@@ -7,249 +7,858 @@ import {
     Trash2,
     Edit3,
     ChevronRight,
+    ChevronDown,
     Monitor,
     Layout,
     Video,
     Menu,
-    X
+    X,
+    Clock,
+    Plus,
+    RotateCcw,
+    Timer,
+    SkipBack,
+    SkipForward,
+    Settings,
+    Download,
+    Upload,
+    Captions,
+    Search,
+    Eye,
+    EyeOff,
+    FolderPlus,
+    GripVertical,
+    Bookmark,
+    ListOrdered,
+    Paperclip,
+    AlertTriangle,
+    Brain,
+    Languages,
+    FileJson
 } from 'lucide-react';
+import { formatTimestamp } from '@/lib/format';
+import { type ProgressMode, getLessonStats } from '@/lib/progress';
+import { readVideoDuration, getPlayableMimeType } from '@/lib/media';
+import { type WatchedRange, addWatchedRange, getWatchedSeconds } from '@/lib/watchedRanges';
+import type { Course, Lesson, LessonBookmark, LessonNote, LessonSubtitle, Module } from '@/lib/types';
+import { isSubtitleFile, findSidecarSubtitles, getLanguageLabel, readSubtitleAsVtt } from '@/lib/subtitles';
+import { type Chapter, isChapterFile, findSidecarChapters, readChapters } from '@/lib/chapters';
+import { isAttachmentFile, indexAttachments } from '@/lib/attachments';
+import { type Route, parseRoute, formatRoute, isSameRoute } from '@/lib/routing';
+import { type ReviewItem, type ReviewRating, applyReviewRating, toggleReviewFlag } from '@/lib/review';
+import { toDayKey } from '@/lib/studyLog';
+import { createCourseStructure, getModuleTitle } from '@/lib/courseStructure';
+import type { ValidationErrorReason } from '@/lib/validation';
+import { type ManifestErrorReason, MANIFEST_FILE_NAME, ManifestError, createCourseFromManifest, createManifest, findManifestFile, parseManifest } from '@/lib/courseManifest';
+import { downloadJson } from '@/lib/download';
+import { randomId } from '@/lib/ids';
+import { getCourseLessons, getModuleLessons, findCourseLesson, findLessonModule, mapCourseLessons } from '@/lib/courseTree';
+import { addModule, createCustomModule, renameModule, removeModule, moveLesson, moveModule } from '@/lib/courseOrganization';
+import { type Reconciliation, reconcileCourse, applyReconciliation, hasReconciliationChanges } from '@/lib/reconcile';
+import { Button, Card, ProgressBar } from '@/components/ui';
+import { type CourseMatch, findMatchingCourse, computeFingerprint, fileSignatures } from '@/lib/fingerprint';
+import { type LibraryBackup, type BackupErrorReason, BackupError, createBackup, parseBackup, mergeLibraries } from '@/lib/backup';
+import { SyncReviewDialog } from '@/components/SyncReviewDialog';
+import { ImportBackupDialog } from '@/components/ImportBackupDialog';
+import { SearchDialog } from '@/components/SearchDialog';
+import { type TimelineMarker, VideoControls } from '@/components/VideoControls';
+import type { SearchHit } from '@/lib/search';
+import { CourseMatchDialog } from '@/components/CourseMatchDialog';
+import { LessonThumbnail } from '@/components/LessonThumbnail';
+import { AttachmentList } from '@/components/AttachmentList';
+import { StudyDashboard } from '@/components/StudyDashboard';
+import { ReviewQueue } from '@/components/ReviewQueue';
+import { usePersistentState } from '@/hooks/usePersistentState';
+import { useCourseLibrary } from '@/hooks/useCourseLibrary';
+import { type StudyLogIssue, useStudyLog } from '@/hooks/useStudyLog';
+import type { StorageIssue } from '@/lib/courseRepository';
+import { useI18n } from '@/hooks/useI18n';
+import { type MessageKey, LOCALES, isLocale } from '@/lib/i18n';
+import {
+    type PickedFile,
+    supportsDirectoryPicker,
+    filesFromInput,
+    pickDirectory,
+    ensureReadPermission,
+    readDirectoryFiles,
+    saveCourseDirectory,
+    loadCourseDirectory,
+    forgetCourseDirectory
+} from '@/lib/fileSystemAccess';
 
 // --- Interfaces & Types ---
 
-interface Lesson {
-    id: string;
-    fileKey: string;
-    originalName: string;
-    title: string;
-    isCompleted: boolean;
-    duration: number;
+interface PlaybackSettings {
+    autoCompleteThreshold: number; // Share of the lesson (0-1) that must be watched; 0 disables it
+    autoplayNext: boolean;
 }
 
-interface Module {
-    id: string;
-    title: string;
-    lessons: Lesson[];
-}
+const AUTOPLAY_DELAY_SECONDS = 5;
+
+const BACKUP_ERROR_MESSAGES: Record<BackupErrorReason, MessageKey> = {
+    invalidJson: 'backup.error.invalidJson',
+    notABackup: 'backup.error.notABackup',
+    missingVersion: 'backup.error.missingVersion',
+    newerVersion: 'backup.error.newerVersion',
+    missingCourses: 'backup.error.missingCourses',
+    invalidCourse: 'backup.error.invalidCourse',
+};
+
+const VALIDATION_ERROR_MESSAGES: Record<ValidationErrorReason, MessageKey> = {
+    invalidField: 'validation.invalidField',
+    notAList: 'validation.notAList',
+};
+
+const MANIFEST_ERROR_MESSAGES: Record<ManifestErrorReason, MessageKey> = {
+    invalidJson: 'manifest.error.invalidJson',
+    notAnObject: 'manifest.error.notAnObject',
+    invalidField: 'manifest.error.invalidField',
+    unknownFile: 'manifest.error.unknownFile',
+    duplicateFile: 'manifest.error.duplicateFile',
+};
+
+const STORAGE_ISSUE_MESSAGES: Record<StorageIssue, MessageKey> = {
+    legacyCorrupt: 'storage.legacyCorrupt',
+    corruptRecords: 'storage.corruptRecords',
+    corruptStorage: 'storage.corruptStorage',
+    indexedDbUnavailable: 'storage.indexedDbUnavailable',
+    loadFailed: 'storage.loadFailed',
+    saveFailed: 'storage.saveFailed',
+};
 
-interface Course {
+const STUDY_LOG_ISSUE_MESSAGES: Record<StudyLogIssue, MessageKey> = {
+    loadFailed: 'storage.studyLogLoadFailed',
+    saveFailed: 'storage.studyLogSaveFailed',
+};
+
+// A <track> ready to attach to the player
+interface SubtitleTrack {
     id: string;
-    title: string;
-    modules: Module[];
-    createdAt: string;
+    label: string;
+    language?: string;
+    url: string;
 }
 
 interface ActiveVideo extends Lesson {
     url: string;
+    mimeType?: string; // Left out when the browser should sniff the container itself
+    courseId: string;
+    startTime: number; // Where playback resumes once metadata is loaded
 }
 
-// --- Utility Components ---
+const isVideoFile = (file: File) => file.type.startsWith('video/') || /\.(mp4|mkv|webm|mov|avi)$/i.test(file.name);
 
-interface ButtonProps extends React.ButtonHTMLAttributes<HTMLButtonElement> {
-    variant?: 'primary' | 'secondary' | 'ghost' | 'danger' | 'outline';
-    children: React.ReactNode;
-}
+// Everything from a course folder that is kept in activeFiles: videos, their sidecars and attachments
+const isCourseFile = (file: File) => isVideoFile(file) || isSubtitleFile(file) || isChapterFile(file) || isAttachmentFile(file);
 
-const Button: React.FC<ButtonProps> = ({ children, variant = 'primary', className = '', ...props }) => {
-    const baseStyle = "px-4 py-2 rounded-md font-medium transition-all duration-200 flex items-center justify-center gap-2 text-sm";
-    const variants = {
-        primary: "bg-blue-600 hover:bg-blue-700 text-white shadow-lg shadow-blue-900/20",
-        secondary: "bg-zinc-800 hover:bg-zinc-700 text-zinc-200 border border-zinc-700",
-        ghost: "bg-transparent hover:bg-zinc-800 text-zinc-400 hover:text-white",
-        danger: "bg-red-500/10 hover:bg-red-500/20 text-red-500 border border-red-500/20",
-        outline: "border border-zinc-700 text-zinc-300 hover:border-zinc-500 hover:bg-zinc-800/50"
-    };
-    return (
-        <button className={`${baseStyle} ${variants[variant]} ${className}`} {...props}>
-            {children}
-        </button>
-    );
+// Completion date follows isCompleted, whichever way the flag was changed
+const stampCompletion = (before: Lesson, after: Lesson): Lesson => {
+    if (after.isCompleted && !before.isCompleted) return { ...after, completedAt: new Date().toISOString() };
+    if (!after.isCompleted && after.completedAt) return { ...after, completedAt: undefined };
+    return after;
 };
 
-const Card: React.FC<{ children: React.ReactNode; className?: string }> = ({ children, className = '' }) => (
-    <div className={`bg-zinc-900 border border-zinc-800 rounded-xl overflow-hidden ${className}`}>
-        {children}
-    </div>
-);
-
-const ProgressBar: React.FC<{ progress: number }> = ({ progress }) => (
-    <div className="h-1.5 w-full bg-zinc-800 rounded-full overflow-hidden">
-        <div
-            className="h-full bg-blue-500 transition-all duration-500 ease-out"
-            style={{ width: `${progress}%` }}
-        />
-    </div>
-);
+// Immutable update for a single lesson inside a course, wherever it sits in the module tree
+const mapLesson = (courses: Course[], courseId: string, lessonId: string, update: (lesson: Lesson) => Lesson): Course[] =>
+    courses.map(c => c.id === courseId
+        ? mapCourseLessons(c, l => l.id === lessonId ? stampCompletion(l, update(l)) : l)
+        : c
+    );
 
 // --- Main Application ---
 
 export default function OmniLearn() {
-    // State: Permanent Data (Persisted in LocalStorage)
-    const [courses, setCourses] = useState<Course[]>(() => {
-        const saved = localStorage.getItem('omniLearn_courses');
-        return saved ? JSON.parse(saved) : [];
-    });
+    const { t, locale, setLocale, formatDuration } = useI18n();
+
+    // State: Permanent Data (Persisted in IndexedDB, one record per course)
+    const [courses, setCourses, isLibraryLoaded, deletedElsewhere, storageIssues, dismissStorageIssue] = useCourseLibrary();
 
     // State: Session Data (Files are lost on reload due to browser security)
     const [activeFiles, setActiveFiles] = useState<Record<string, File>>({}); // Map: fileName -> FileObject
-    const [currentCourseId, setCurrentCourseId] = useState<string | null>(null);
+    // The URL is read once on load; afterwards it follows the state (see Routing)
+    const [currentCourseId, setCurrentCourseId] = useState<string | null>(() => parseRoute(window.location.hash).courseId ?? null);
     const [activeVideo, setActiveVideo] = useState<ActiveVideo | null>(null);
+    // Lesson opened through a link whose file is not available in this session yet
+    const [deepLink, setDeepLink] = useState<Route | null>(() => {
+        const route = parseRoute(window.location.hash);
+        return route.lessonId ? route : null;
+    });
 
     // UI State
     const [isSidebarOpen, setSidebarOpen] = useState<boolean>(true);
     const [editingLessonId, setEditingLessonId] = useState<string | null>(null);
     const [tempLessonTitle, setTempLessonTitle] = useState<string>("");
+    const [editingModuleId, setEditingModuleId] = useState<string | null>(null);
+    const [tempModuleTitle, setTempModuleTitle] = useState<string>("");
+    const [showHiddenLessons, setShowHiddenLessons] = useState<boolean>(false);
+    const [dragItem, setDragItem] = useState<{ kind: 'lesson' | 'module'; id: string } | null>(null);
+    const [dropTargetId, setDropTargetId] = useState<string | null>(null);
+    const [noteDraft, setNoteDraft] = useState<string>("");
+    const [progressMode, setProgressMode] = usePersistentState<ProgressMode>('omniLearn_progressMode', 'lessons');
+    const [playbackSettings, setPlaybackSettings] = usePersistentState<PlaybackSettings>('omniLearn_playbackSettings', {
+        autoCompleteThreshold: 0.9,
+        autoplayNext: true
+    });
+    const [collapsedModules, setCollapsedModules] = usePersistentState<Record<string, boolean>>('omniLearn_collapsedModules', {});
+    const [playbackRates, setPlaybackRates] = usePersistentState<Record<string, number>>('omniLearn_playbackRates', {}); // Per course
+    const [dailyGoalMinutes, setDailyGoalMinutes] = usePersistentState<number>('omniLearn_dailyGoalMinutes', 30);
+    const [isReviewMode, setReviewMode] = usePersistentState<boolean>('omniLearn_reviewMode', false);
+    const [studyLog, recordStudy, studyLogIssues, dismissStudyLogIssue] = useStudyLog();
+    const [isSettingsOpen, setSettingsOpen] = useState<boolean>(false);
+    const [isSearchOpen, setSearchOpen] = useState<boolean>(false);
+    const [autoplayCountdown, setAutoplayCountdown] = useState<{ lesson: Lesson; seconds: number } | null>(null);
+    const [pendingSync, setPendingSync] = useState<{ courseId: string; reconciliation: Reconciliation; files: PickedFile[] } | null>(null);
+    const [subtitleTracks, setSubtitleTracks] = useState<SubtitleTrack[]>([]);
+    const [chapters, setChapters] = useState<Chapter[]>([]); // Sidecar chapters of the lesson being played
+    const [subtitleLanguage, setSubtitleLanguage] = usePersistentState<string | null>('omniLearn_subtitleLanguage', null);
+    const [pendingBackup, setPendingBackup] = useState<LibraryBackup | null>(null);
+    const [pendingMatch, setPendingMatch] = useState<{ match: CourseMatch; files: PickedFile[]; handle?: FileSystemDirectoryHandle } | null>(null);
+
+    const videoRef = useRef<HTMLVideoElement>(null);
+    const playerContainerRef = useRef<HTMLDivElement>(null);
+    const lastSavedPositionRef = useRef<number>(0);
+    const probedFileKeysRef = useRef<Set<string>>(new Set()); // Files whose duration was already read (or failed)
+    // Watched ranges of the video currently playing, flushed to the lesson together with the position.
+    // studySeconds is the real time watched since the last flush, for the study log.
+    const watchedRef = useRef<{ lessonId: string; ranges: WatchedRange[]; lastTime: number; studySeconds: number } | null>(null);
+    const autoplayTimerRef = useRef<number | null>(null);
+
+    // Subtitles of the lesson being played: sidecar files from the linked folder plus the ones loaded
+    // by hand. Read from the course data so it only changes when the subtitle list itself changes.
+    const activeLessonSubtitles = activeVideo
+        ? findCourseLesson(courses.find(c => c.id === activeVideo.courseId), activeVideo.id)?.subtitles
+        : undefined;
+
+    useEffect(() => {
+        if (!activeVideo) return;
+        let cancelled = false;
+        const urls: string[] = [];
+        const toTrack = ({ vtt, ...track }: LessonSubtitle): SubtitleTrack => {
+            const url = URL.createObjectURL(new Blob([vtt], { type: 'text/vtt' }));
+            urls.push(url);
+            return { ...track, url };
+        };
+
+        (async () => {
+            const sidecars = findSidecarSubtitles(activeVideo.fileKey, Object.keys(activeFiles));
+            const contents: LessonSubtitle[] = []; // Same shape as the subtitles loaded by hand
+            for (const sidecar of sidecars) {
+                const vtt = await readSubtitleAsVtt(activeFiles[sidecar.fileKey]).catch(() => null);
+                const label = sidecar.language ? getLanguageLabel(sidecar.language, locale) : t('subtitles.defaultLabel');
+                if (vtt) contents.push({ id: sidecar.fileKey, label, language: sidecar.language, vtt });
+            }
+            // URLs are only created once nothing else is awaited, so none outlive the cleanup
+            if (cancelled) return;
+            setSubtitleTracks([...contents, ...(activeLessonSubtitles ?? [])].map(toTrack));
+        })();
+
+        return () => {
+            cancelled = true;
+            urls.forEach(url => URL.revokeObjectURL(url));
+        };
+    }, [activeVideo, activeFiles, activeLessonSubtitles, locale, t]);
+
+    // Chapters sidecar next to the video; like sidecar subtitles, it is read again on every play
+    useEffect(() => {
+        if (!activeVideo) return;
+        let cancelled = false;
+        const [chapterKey] = findSidecarChapters(activeVideo.fileKey, Object.keys(activeFiles));
+        const load: Promise<Chapter[]> = chapterKey ? readChapters(activeFiles[chapterKey]).catch(() => []) : Promise.resolve([]);
+        load.then(result => {
+            if (!cancelled) setChapters(result);
+        });
+        return () => { cancelled = true; };
+    }, [activeVideo, activeFiles]);
+
+    // <track default> is only honoured on first load, so drive the modes directly
+    const selectedSubtitle = subtitleTracks.find(t => t.language === subtitleLanguage)
+        ?? (subtitleLanguage === null ? undefined : subtitleTracks.find(t => t.id === subtitleLanguage))
+        ?? (subtitleLanguage === 'off' ? undefined : subtitleTracks[0]);
+
+    useEffect(() => {
+        const video = videoRef.current;
+        if (!video) return;
+        Array.from(video.textTracks).forEach(track => {
+            track.mode = track.id === selectedSubtitle?.id ? 'showing' : 'disabled';
+        });
+    }, [selectedSubtitle, subtitleTracks]);
+
+    // Search shortcut: Ctrl/Cmd+K anywhere, or "/" when not typing
+    useEffect(() => {
+        const handleKeyDown = (event: KeyboardEvent) => {
+            const target = event.target as HTMLElement;
+            const isTyping = target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName);
+            if (((event.ctrlKey || event.metaKey) && event.key.toLowerCase() === 'k') || (event.key === '/' && !isTyping)) {
+                event.preventDefault();
+                setSearchOpen(true);
+            }
+        };
+        window.addEventListener('keydown', handleKeyDown);
+        return () => window.removeEventListener('keydown', handleKeyDown);
+    }, []);
 
-    // Persist courses whenever they change
+    // Stop a pending autoplay countdown when the component goes away
+    useEffect(() => () => {
+        if (autoplayTimerRef.current !== null) clearInterval(autoplayTimerRef.current);
+    }, []);
+
+    // Background duration probing: reads metadata for linked lessons that have no duration yet,
+    // one file at a time. Each result updates courses, which re-runs this effect for the next file.
     useEffect(() => {
-        localStorage.setItem('omniLearn_courses', JSON.stringify(courses));
-    }, [courses]);
+        const pending = courses.flatMap(c => getCourseLessons(c)
+            .filter(l => !l.duration && activeFiles[l.fileKey] && !probedFileKeysRef.current.has(l.fileKey))
+            .map(l => ({ courseId: c.id, lesson: l }))
+        );
+        if (pending.length === 0) return;
+
+        let cancelled = false;
+        (async () => {
+            for (const { courseId, lesson } of pending) {
+                if (cancelled) return;
+                probedFileKeysRef.current.add(lesson.fileKey);
+                const duration = await readVideoDuration(activeFiles[lesson.fileKey]).catch(() => 0);
+                if (duration > 0) {
+                    setCourses(prev => mapLesson(prev, courseId, lesson.id, l => ({ ...l, duration })));
+                }
+            }
+        })();
+        return () => { cancelled = true; };
+    }, [courses, activeFiles, setCourses]);
 
     // --- Handlers ---
 
-    const handleFolderSelect = (event: React.ChangeEvent<HTMLInputElement>) => {
-        const files = Array.from(event.target.files || []);
+    // Shared by the webkitdirectory input and the directory picker. The directory handle, when
+    // there is one, is stored for whichever course the files end up linked to.
+    // Resolves with the files made available for playback, once a new course (if any) exists.
+    const importFiles = async (files: PickedFile[], handle?: FileSystemDirectoryHandle): Promise<Record<string, File>> => {
         // Filter video files
-        const videoFiles = files.filter(f => f.type.startsWith('video/') || f.name.match(/\.(mp4|mkv|webm|mov|avi)$/i));
+        const videoFiles = files.filter(f => isVideoFile(f.file));
 
         if (videoFiles.length === 0) {
-            alert("Nenhum arquivo de vídeo encontrado nesta pasta.");
-            return;
+            alert(t('import.noVideos'));
+            return {};
         }
 
-        // Generate a temporary map of files for playback
+        // Generate a temporary map of files for playback (sidecars and attachments included)
         const fileMap: Record<string, File> = {};
-        videoFiles.forEach(f => {
-            // Create a unique key using relative path if available, or just name
-            const key = f.webkitRelativePath || f.name;
-            fileMap[key] = f;
+        files.forEach(f => {
+            if (isCourseFile(f.file)) fileMap[f.relativePath] = f.file;
         });
         setActiveFiles(prev => ({ ...prev, ...fileMap }));
 
-        // Determine Course Name from folder structure
-        const rootFolderName = videoFiles[0].webkitRelativePath.split('/')[0] || "Novo Curso";
+        // Identify the course by its content, not by the folder title
+        const match = findMatchingCourse(courses, videoFiles);
 
-        // Check if course already exists to update it, or create new
-        const existingCourseIndex = courses.findIndex(c => c.title === rootFolderName);
+        if (match?.isExact) {
+            linkFilesToCourse(match.course, files, handle);
+        } else if (match) {
+            // Only part of the files match: let the user decide
+            setPendingMatch({ match, files, handle });
+        } else {
+            await createCourseFromFiles(files, handle);
+        }
+        return fileMap;
+    };
 
-        if (existingCourseIndex >= 0) {
-            // Course exists: Just update file availability status internally (UI logic handles this)
-            alert(`Arquivos carregados para o curso: ${rootFolderName}`);
-            setCurrentCourseId(courses[existingCourseIndex].id);
+    // files is the whole folder: videos drive the structure, the rest is indexed as attachments
+    const linkFilesToCourse = (course: Course, files: PickedFile[], handle?: FileSystemDirectoryHandle) => {
+        // Diff the folder against the stored structure and let the user review changes
+        const reconciliation = reconcileCourse(course, files.filter(f => isVideoFile(f.file)));
+        if (hasReconciliationChanges(reconciliation)) {
+            setPendingSync({ courseId: course.id, reconciliation, files });
         } else {
-            // New Course: Auto-generate structure based on folders
-            const newCourse = createCourseStructure(rootFolderName, videoFiles);
+            // Nothing to review, but exact matches may still refresh sizes, paths, missing flags or attachments
+            setCourses(prev => prev.map(c => c.id === course.id ? indexAttachments(applyReconciliation(c, reconciliation), files) : c));
+            alert(t('import.filesLoaded', { title: course.title }));
+        }
+        setCurrentCourseId(course.id);
+        if (handle) saveCourseDirectory(course.id, handle).catch(() => undefined);
+    };
+
+    // A course.json at the folder root takes priority over the structure guessed from folders and
+    // file names; if it can't be used, the user is told why and the guessed structure is kept
+    const buildCourseStructure = async (folderName: string, files: PickedFile[], videoFiles: PickedFile[]): Promise<Course> => {
+        const manifestFile = findManifestFile(files);
+        if (manifestFile) {
+            try {
+                return createCourseFromManifest(parseManifest(await manifestFile.file.text()), folderName, videoFiles);
+            } catch (err) {
+                const reason = err instanceof ManifestError
+                    ? t(MANIFEST_ERROR_MESSAGES[err.reason], { detail: err.detail })
+                    : t('manifest.readFailed');
+                alert(t('manifest.ignored', { reason }));
+            }
+        }
+        return createCourseStructure(folderName, videoFiles);
+    };
+
+    // Never rejects: a failure is reported to the user, so callers can await it or fire and forget
+    const createCourseFromFiles = async (files: PickedFile[], handle?: FileSystemDirectoryHandle) => {
+        const videoFiles = files.filter(f => isVideoFile(f.file));
+        // Determine Course Name from folder structure
+        const rootFolderName = videoFiles[0].relativePath.split('/')[0] || t('course.defaultTitle');
+
+        try {
+            // New Course: Auto-generate structure based on folders, unless the folder has a manifest
+            const newCourse: Course = indexAttachments({
+                ...await buildCourseStructure(rootFolderName, files, videoFiles),
+                fingerprint: computeFingerprint(fileSignatures(videoFiles))
+            }, files);
             setCourses(prev => [...prev, newCourse]);
             setCurrentCourseId(newCourse.id);
+            if (handle) saveCourseDirectory(newCourse.id, handle).catch(() => undefined);
+        } catch {
+            alert(t('import.createFailed'));
         }
     };
 
-    const createCourseStructure = (courseTitle: string, files: File[]): Course => {
-        const courseId = Date.now().toString();
-        const modulesMap = new Map<string, Module>();
+    const resolvePendingMatch = (linkToExisting: boolean) => {
+        if (!pendingMatch) return;
+        const { match, files, handle } = pendingMatch;
+        setPendingMatch(null);
+        if (linkToExisting) {
+            linkFilesToCourse(match.course, files, handle);
+        } else {
+            createCourseFromFiles(files, handle);
+        }
+    };
+
+    const handleFolderSelect = async (event: React.ChangeEvent<HTMLInputElement>) => {
+        playDeepLink(await importFiles(filesFromInput(Array.from(event.target.files || []))));
+    };
 
-        // Default module
-        modulesMap.set('Geral', { id: `mod_general_${courseId}`, title: 'Geral', lessons: [] });
+    // File System Access path: the handle is kept in IndexedDB so the folder can be reopened after a reload
+    const handleDirectoryPick = async () => {
+        try {
+            const handle = await pickDirectory();
+            if (!handle) return;
+            playDeepLink(await importFiles(await readDirectoryFiles(handle), handle));
+        } catch {
+            // Picker failures other than a cancel, or the folder went away or lost its permission mid-read
+            alert(t('import.folderReadFailed'));
+        }
+    };
 
-        files.forEach(file => {
-            const pathParts = file.webkitRelativePath.split('/');
-            // pathParts: [CourseName, ModuleName?, FileName]
+    // Rebuilds activeFiles from the stored handle and returns the restored map. Resolves null
+    // when there is no handle or the user refused to grant access again.
+    const restoreCourseFiles = async (courseId: string): Promise<Record<string, File> | null> => {
+        if (!supportsDirectoryPicker()) return null;
+        const handle = await loadCourseDirectory(courseId);
+        if (!handle || !(await ensureReadPermission(handle))) return null;
 
-            let moduleName = 'Geral';
+        const fileMap: Record<string, File> = {};
+        (await readDirectoryFiles(handle)).forEach(f => {
+            if (isCourseFile(f.file)) fileMap[f.relativePath] = f.file;
+        });
+        setActiveFiles(prev => ({ ...prev, ...fileMap }));
+        return fileMap;
+    };
 
-            if (pathParts.length > 2) {
-                moduleName = pathParts[1]; // Subfolder is the module
-            }
+    // Opens a course, restoring folder access if needed. Resolves with the files available for it.
+    const openCourse = async (course: Course): Promise<Record<string, File>> => {
+        setCurrentCourseId(course.id);
+        setDeepLink(null);
+        const hasMissingFiles = getCourseLessons(course).some(l => !l.isMissing && !activeFiles[l.fileKey]); // Files removed from disk never load
+        if (!hasMissingFiles) return activeFiles;
 
-            if (!modulesMap.has(moduleName)) {
-                modulesMap.set(moduleName, {
-                    id: `mod_${moduleName}_${courseId}`,
-                    title: moduleName,
-                    lessons: []
-                });
-            }
+        const restored = await restoreCourseFiles(course.id).catch(() => null);
+        if (!restored) {
+            alert(t('course.folderNeeded'));
+            return activeFiles;
+        }
+        return { ...activeFiles, ...restored };
+    };
 
-            const lesson: Lesson = {
-                id: `less_${file.name}_${Date.now()}_${Math.random()}`,
-                fileKey: file.webkitRelativePath || file.name, // Key to link with activeFiles
-                originalName: file.name,
-                title: file.name.replace(/\.[^/.]+$/, ""), // Remove extension for display
-                isCompleted: false,
-                duration: 0
-            };
+    // Opens a course and plays one of its lessons, from startTime or else its saved position
+    const openLessonAt = async (course: Course, lesson: Lesson, startTime?: number) => {
+        const files = await openCourse(course);
+        if (files[lesson.fileKey]) {
+            handlePlayVideo(course.id, lesson, files, startTime);
+        }
+    };
 
-            const module = modulesMap.get(moduleName);
-            if (module) {
-                module.lessons.push(lesson);
-            }
-        });
+    const resumeCourse = async (course: Course) => {
+        const lesson = findCourseLesson(course, course.lastLessonId);
+        if (lesson) await openLessonAt(course, lesson);
+    };
 
-        // Sort lessons by name
-        modulesMap.forEach(mod => {
-            mod.lessons.sort((a, b) => a.originalName.localeCompare(b.originalName, undefined, { numeric: true }));
-        });
+    const handleSearchSelect = (hit: SearchHit) => {
+        setSearchOpen(false);
+        if (hit.lesson) {
+            openLessonAt(hit.course, hit.lesson, hit.time);
+        } else if (hit.course.id !== currentCourseId) {
+            openCourse(hit.course);
+        }
+    };
 
-        return {
-            id: courseId,
-            title: courseTitle,
-            modules: Array.from(modulesMap.values()),
-            createdAt: new Date().toISOString()
-        };
+    const applyPendingSync = () => {
+        if (!pendingSync) return;
+        const { courseId, reconciliation, files } = pendingSync;
+        setCourses(prev => prev.map(c => c.id === courseId ? indexAttachments(applyReconciliation(c, reconciliation), files) : c));
+        setPendingSync(null);
     };
 
-    const toggleLessonCompletion = (courseId: string, moduleId: string, lessonId: string, event: React.MouseEvent) => {
-        event.stopPropagation();
-        setCourses(prev => prev.map(course => {
-            if (course.id !== courseId) return course;
-
-            return {
-                ...course,
-                modules: course.modules.map(mod => {
-                    if (mod.id !== moduleId) return mod;
-                    return {
-                        ...mod,
-                        lessons: mod.lessons.map(lesson => {
-                            if (lesson.id !== lessonId) return lesson;
-                            return { ...lesson, isCompleted: !lesson.isCompleted };
-                        })
-                    };
+    // --- Backup ---
+
+    const exportLibrary = (course?: Course) => {
+        const date = new Date().toISOString().slice(0, 10);
+        const name = course ? course.title.replace(/[^\w-]+/g, '_') : t('backup.libraryFileName');
+        downloadJson(createBackup(course ? [course] : courses), `omnilearn-${name}-${date}.json`);
+    };
+
+    // Saved next to the videos, the manifest recreates this structure when the folder is imported again
+    const exportManifest = (course: Course) => downloadJson(createManifest(course), MANIFEST_FILE_NAME);
+
+    const handleBackupSelect = async (event: React.ChangeEvent<HTMLInputElement>) => {
+        const file = event.target.files?.[0];
+        event.target.value = ''; // Allow picking the same file again
+        if (!file) return;
+        try {
+            setPendingBackup(parseBackup(await file.text()));
+        } catch (err) {
+            alert(err instanceof BackupError
+                ? t('backup.importFailed', {
+                    reason: t(BACKUP_ERROR_MESSAGES[err.reason], {
+                        detail: err.validation ? t(VALIDATION_ERROR_MESSAGES[err.validation.reason], { path: err.validation.path }) : err.message
+                    })
                 })
-            };
-        }));
+                : t('backup.readFailed'));
+        }
+    };
+
+    const applyBackup = (mode: 'merge' | 'replace') => {
+        if (!pendingBackup) return;
+        const imported = pendingBackup.courses;
+        setCourses(prev => mode === 'merge' ? mergeLibraries(prev, imported) : imported);
+        if (mode === 'replace') {
+            setCurrentCourseId(null);
+            setActiveVideo(null);
+        }
+        setPendingBackup(null);
+    };
+
+    const toggleLessonCompletion = (courseId: string, lessonId: string, event: React.MouseEvent) => {
+        event.stopPropagation();
+        setCourses(prev => mapLesson(prev, courseId, lessonId, lesson => ({ ...lesson, isCompleted: !lesson.isCompleted })));
     };
 
-    const handlePlayVideo = (lesson: Lesson) => {
-        const file = activeFiles[lesson.fileKey];
+    const handlePlayVideo = (courseId: string, lesson: Lesson, files: Record<string, File> = activeFiles, startTime?: number) => {
+        const file = files[lesson.fileKey];
         if (file) {
             const url = URL.createObjectURL(file);
-            setActiveVideo({ ...lesson, url });
+            cancelAutoplay();
+            setActiveVideo({ ...lesson, url, mimeType: getPlayableMimeType(file), courseId, startTime: startTime ?? lesson.lastPosition ?? 0 });
+            setNoteDraft("");
+            setDeepLink(null);
+            lastSavedPositionRef.current = lesson.lastPosition ?? 0;
+            watchedRef.current = { lessonId: lesson.id, ranges: lesson.watchedRanges ?? [], lastTime: lesson.lastPosition ?? 0, studySeconds: 0 };
+            setCourses(prev => prev.map(c => c.id === courseId
+                ? { ...c, lastLessonId: lesson.id, lastWatchedAt: new Date().toISOString() }
+                : c
+            ));
         } else {
-            alert("Arquivo de vídeo não encontrado na sessão atual. Por favor, selecione a pasta do curso novamente.");
+            alert(t('player.fileNotFound'));
         }
     };
 
-    const renameLesson = (courseId: string, moduleId: string, lessonId: string, newTitle: string) => {
-        setCourses(prev => prev.map(c => {
-            if (c.id !== courseId) return c;
-            return {
-                ...c,
-                modules: c.modules.map(m => {
-                    if (m.id !== moduleId) return m;
-                    return {
-                        ...m,
-                        lessons: m.lessons.map(l => {
-                            if (l.id !== lessonId) return l;
-                            return { ...l, title: newTitle };
-                        })
-                    };
-                })
-            };
-        }));
+    const renameLesson = (courseId: string, lessonId: string, newTitle: string) => {
+        setCourses(prev => mapLesson(prev, courseId, lessonId, l => ({ ...l, title: newTitle })));
         setEditingLessonId(null);
     };
 
+    const updateLesson = (courseId: string, lessonId: string, update: (lesson: Lesson) => Lesson) => {
+        setCourses(prev => mapLesson(prev, courseId, lessonId, update));
+    };
+
+    const updateCourse = (courseId: string, update: (course: Course) => Course) => {
+        setCourses(prev => prev.map(c => c.id === courseId ? update(c) : c));
+    };
+
+    // --- Manual organization ---
+
+    const commitModuleRename = (courseId: string, moduleId: string, newTitle: string) => {
+        const title = newTitle.trim();
+        if (title) updateCourse(courseId, c => renameModule(c, moduleId, title));
+        setEditingModuleId(null);
+    };
+
+    // New modules are appended at the top level with their title open for editing
+    const handleCreateModule = (courseId: string) => {
+        const module = createCustomModule(t('module.newTitle'));
+        updateCourse(courseId, c => addModule(c, module));
+        setEditingModuleId(module.id);
+        setTempModuleTitle(module.title);
+    };
+
+    const endDrag = () => {
+        setDragItem(null);
+        setDropTargetId(null);
+    };
+
+    // Lessons dropped on a lesson go right before it; dropped on a module header, to the end of that module.
+    // Modules dropped on another module header land right before it; the end zones below are for modules only.
+    const handleDrop = (courseId: string, targetModuleId: string, beforeLessonId?: string) => {
+        if (dragItem?.kind === 'lesson') {
+            updateCourse(courseId, c => moveLesson(c, dragItem.id, targetModuleId, beforeLessonId));
+        } else if (dragItem?.kind === 'module' && !beforeLessonId) {
+            updateCourse(courseId, c => moveModule(c, dragItem.id, targetModuleId));
+        }
+        endDrag();
+    };
+
+    const dropTargetProps = (courseId: string, targetId: string, targetModuleId: string, beforeLessonId?: string) => ({
+        onDragOver: (e: React.DragEvent) => {
+            if (!dragItem || dragItem.id === targetId || (dragItem.kind === 'module' && beforeLessonId)) return;
+            e.preventDefault();
+            setDropTargetId(targetId);
+        },
+        onDragLeave: () => setDropTargetId(id => id === targetId ? null : id),
+        onDrop: (e: React.DragEvent) => {
+            e.preventDefault();
+            e.stopPropagation();
+            handleDrop(courseId, targetModuleId, beforeLessonId);
+        }
+    });
+
+    // Shown while a module is dragged: at the end of a module's sub-modules, or at the end of the course
+    const renderModuleDropZone = (courseId: string, zoneId: string, label: string, parentModuleId?: string) => dragItem?.kind === 'module' && (
+        <div
+            onDragOver={(e) => {
+                e.preventDefault();
+                setDropTargetId(zoneId);
+            }}
+            onDragLeave={() => setDropTargetId(id => id === zoneId ? null : id)}
+            onDrop={(e) => {
+                e.preventDefault();
+                e.stopPropagation();
+                updateCourse(courseId, c => moveModule(c, dragItem.id, undefined, parentModuleId));
+                endDrag();
+            }}
+            className={`my-1 px-2 py-1 rounded border border-dashed text-[10px] ${dropTargetId === zoneId ? 'border-blue-500 bg-blue-600/10 text-blue-300' : 'border-zinc-800 text-zinc-600'}`}
+        >
+            {label}
+        </div>
+    );
+
+    const updateLessonNotes = (courseId: string, lessonId: string, notes: string) => {
+        updateLesson(courseId, lessonId, l => ({ ...l, notes }));
+    };
+
+    const addTimedNote = (courseId: string, lessonId: string) => {
+        const text = noteDraft.trim();
+        if (!text) return;
+        const note: LessonNote = {
+            id: `note_${randomId()}`,
+            time: videoRef.current?.currentTime ?? 0,
+            text,
+            createdAt: new Date().toISOString()
+        };
+        updateLesson(courseId, lessonId, l => ({
+            ...l,
+            timedNotes: [...(l.timedNotes ?? []), note].sort((a, b) => a.time - b.time)
+        }));
+        setNoteDraft("");
+    };
+
+    const addBookmark = (courseId: string, lessonId: string, time: number) => {
+        const title = window.prompt(t('bookmark.namePrompt'), t('bookmark.defaultName', { time: formatTimestamp(time) }));
+        if (title === null) return;
+        const bookmark: LessonBookmark = {
+            id: `bookmark_${randomId()}`,
+            time,
+            title: title.trim() || formatTimestamp(time)
+        };
+        updateLesson(courseId, lessonId, l => ({
+            ...l,
+            bookmarks: [...(l.bookmarks ?? []), bookmark].sort((a, b) => a.time - b.time)
+        }));
+    };
+
+    const deleteBookmark = (courseId: string, lessonId: string, bookmarkId: string) => {
+        updateLesson(courseId, lessonId, l => ({
+            ...l,
+            bookmarks: (l.bookmarks ?? []).filter(b => b.id !== bookmarkId)
+        }));
+    };
+
+    const deleteTimedNote = (courseId: string, lessonId: string, noteId: string) => {
+        updateLesson(courseId, lessonId, l => ({
+            ...l,
+            timedNotes: (l.timedNotes ?? []).filter(n => n.id !== noteId)
+        }));
+    };
+
+    // --- Review ---
+
+    const toggleNoteReview = (courseId: string, lessonId: string, noteId: string) => {
+        const today = toDayKey(new Date());
+        updateLesson(courseId, lessonId, l => ({
+            ...l,
+            timedNotes: (l.timedNotes ?? []).map(n => n.id === noteId ? toggleReviewFlag(n, today) : n)
+        }));
+    };
+
+    const toggleBookmarkReview = (courseId: string, lessonId: string, bookmarkId: string) => {
+        const today = toDayKey(new Date());
+        updateLesson(courseId, lessonId, l => ({
+            ...l,
+            bookmarks: (l.bookmarks ?? []).map(b => b.id === bookmarkId ? toggleReviewFlag(b, today) : b)
+        }));
+    };
+
+    const rateReview = (item: ReviewItem, rating: ReviewRating) => {
+        updateLesson(item.course.id, item.lesson.id, l => applyReviewRating(l, item, rating, toDayKey(new Date())));
+    };
+
+    // --- Playback position ---
+
+    // Takes the video explicitly: a pause event from an unmounting <video> may arrive after activeVideo changed
+    const savePlaybackPosition = (video: ActiveVideo, position: number) => {
+        lastSavedPositionRef.current = position;
+        const watched = watchedRef.current?.lessonId === video.id ? watchedRef.current : undefined;
+        updateLesson(video.courseId, video.id, l => ({
+            ...l,
+            lastPosition: position,
+            ...(watched ? { watchedRanges: watched.ranges } : {})
+        }));
+        if (watched && watched.studySeconds >= 1) {
+            recordStudy(video.courseId, video.id, watched.studySeconds);
+            watched.studySeconds = 0;
+        }
+        // Keep the timestamp in the URL current, so a bookmark or reload resumes here
+        const route = parseRoute(window.location.hash);
+        if (route.lessonId === video.id) {
+            window.history.replaceState(window.history.state, '', formatRoute({ ...route, time: position }));
+        }
+    };
+
+    const handleVideoLoaded = (event: React.SyntheticEvent<HTMLVideoElement>) => {
+        const video = event.currentTarget;
+        if (!activeVideo) return;
+        if (!activeVideo.duration && Number.isFinite(video.duration)) {
+            updateLesson(activeVideo.courseId, activeVideo.id, l => ({ ...l, duration: video.duration }));
+        }
+        // Resuming a few seconds from the end would immediately end the video again
+        if (activeVideo.startTime > 0 && activeVideo.startTime < video.duration - 5) {
+            video.currentTime = activeVideo.startTime;
+        }
+    };
+
+    const handleVideoTimeUpdate = (event: React.SyntheticEvent<HTMLVideoElement>) => {
+        const video = event.currentTarget;
+        const position = video.currentTime;
+        if (!activeVideo) return;
+
+        const watched = watchedRef.current;
+        if (watched?.lessonId === activeVideo.id) {
+            // Small forward steps are playback; anything larger is a seek and doesn't count as watched
+            const delta = position - watched.lastTime;
+            if (delta > 0 && delta < 1.5) {
+                const previousRanges = watched.ranges;
+                watched.ranges = addWatchedRange(watched.ranges, watched.lastTime, position);
+                watched.studySeconds += delta / (video.playbackRate || 1);
+                checkAutoCompletion(activeVideo, video.duration, previousRanges, watched.ranges);
+            }
+            watched.lastTime = position;
+        }
+
+        // Persist every 5 seconds of movement to avoid rewriting storage on each timeupdate tick
+        if (Math.abs(position - lastSavedPositionRef.current) >= 5) {
+            savePlaybackPosition(activeVideo, position);
+        }
+    };
+
+    const handleVideoSeeked = (event: React.SyntheticEvent<HTMLVideoElement>) => {
+        if (watchedRef.current) watchedRef.current.lastTime = event.currentTarget.currentTime;
+    };
+
+    // Completes the lesson only when the watched share crosses the threshold now, so a lesson the
+    // user marked as incomplete by hand isn't completed again by the ranges watched before
+    const checkAutoCompletion = (video: ActiveVideo, duration: number, previousRanges: WatchedRange[], ranges: WatchedRange[]) => {
+        const { autoCompleteThreshold } = playbackSettings;
+        if (autoCompleteThreshold <= 0 || !Number.isFinite(duration) || duration <= 0) return;
+        if (getWatchedSeconds(previousRanges) / duration >= autoCompleteThreshold) return;
+        const lesson = findLesson(video.courseId, video.id);
+        if (!lesson || lesson.isCompleted) return;
+        if (getWatchedSeconds(ranges) / duration >= autoCompleteThreshold) {
+            updateLesson(video.courseId, video.id, l => ({ ...l, isCompleted: true }));
+        }
+    };
+
+    // --- Lesson navigation & autoplay ---
+
+    const findLesson = (courseId: string, lessonId: string) =>
+        findCourseLesson(courses.find(c => c.id === courseId), lessonId);
+
+    // Previous/next lesson in course order, crossing module boundaries at any depth
+    const getAdjacentLesson = (courseId: string, lessonId: string, offset: -1 | 1): Lesson | undefined => {
+        const course = courses.find(c => c.id === courseId);
+        // Hidden lessons are skipped, unless it is the one playing
+        const lessons = course ? getCourseLessons(course).filter(l => !l.isHidden || l.id === lessonId) : [];
+        const index = lessons.findIndex(l => l.id === lessonId);
+        return index < 0 ? undefined : lessons[index + offset];
+    };
+
+    const cancelAutoplay = () => {
+        if (autoplayTimerRef.current !== null) {
+            clearInterval(autoplayTimerRef.current);
+            autoplayTimerRef.current = null;
+        }
+        setAutoplayCountdown(null);
+    };
+
+    const startAutoplayCountdown = (courseId: string, lesson: Lesson) => {
+        cancelAutoplay();
+        let seconds = AUTOPLAY_DELAY_SECONDS;
+        setAutoplayCountdown({ lesson, seconds });
+        autoplayTimerRef.current = window.setInterval(() => {
+            seconds -= 1;
+            if (seconds > 0) {
+                setAutoplayCountdown({ lesson, seconds });
+            } else {
+                handlePlayVideo(courseId, lesson);
+            }
+        }, 1000);
+    };
+
+    const handleVideoEnded = (video: ActiveVideo) => {
+        savePlaybackPosition(video, 0);
+        const next = getAdjacentLesson(video.courseId, video.id, 1);
+        if (playbackSettings.autoplayNext && next && activeFiles[next.fileKey]) {
+            startAutoplayCountdown(video.courseId, next);
+        }
+    };
+
+    const seekTo = (time: number) => {
+        const video = videoRef.current;
+        if (!video) return;
+        video.currentTime = time;
+        video.play().catch(() => undefined);
+    };
+
+    // --- Subtitles ---
+
+    const handleSubtitleSelect = async (courseId: string, lessonId: string, event: React.ChangeEvent<HTMLInputElement>) => {
+        const file = event.target.files?.[0];
+        event.target.value = '';
+        if (!file) return;
+        try {
+            const subtitle: LessonSubtitle = {
+                id: `sub_${randomId()}`,
+                label: file.name,
+                vtt: await readSubtitleAsVtt(file)
+            };
+            updateLesson(courseId, lessonId, l => ({ ...l, subtitles: [...(l.subtitles ?? []), subtitle] }));
+            setSubtitleLanguage(subtitle.id);
+        } catch {
+            alert(t('subtitles.readFailed'));
+        }
+    };
+
     const deleteCourse = (courseId: string) => {
-        if (window.confirm("Tem certeza que deseja remover este curso da lista? O progresso será perdido.")) {
+        if (window.confirm(t('course.confirmDelete'))) {
             setCourses(prev => prev.filter(c => c.id !== courseId));
+            forgetCourseDirectory(courseId).catch(() => undefined);
             if (currentCourseId === courseId) {
                 setCurrentCourseId(null);
                 setActiveVideo(null);
@@ -260,22 +869,147 @@ export default function OmniLearn() {
     // --- Views ---
 
     const currentCourse = courses.find(c => c.id === currentCourseId);
+    // The course on screen was removed in another tab; the library is shown with a notice instead
+    const deletedCurrentCourse = currentCourseId && !currentCourse ? deletedElsewhere.find(c => c.id === currentCourseId) : undefined;
 
     // Calculate Progress
-    const getCourseStats = (course: Course) => {
-        let total = 0;
-        let completed = 0;
-        course.modules.forEach(m => {
-            total += m.lessons.length;
-            completed += m.lessons.filter(l => l.isCompleted).length;
-        });
-        const percentage = total === 0 ? 0 : Math.round((completed / total) * 100);
-        return { total, completed, percentage };
+    const getCourseStats = (course: Course) => getLessonStats(getCourseLessons(course), progressMode);
+
+    // --- Routing ---
+
+    const deepLinkLesson = deepLink && !activeVideo && deepLink.courseId === currentCourse?.id
+        ? findCourseLesson(currentCourse, deepLink.lessonId)
+        : undefined;
+    const routeLessonId = activeVideo && activeVideo.courseId === currentCourse?.id ? activeVideo.id : deepLinkLesson?.id;
+    const routeTime = deepLinkLesson ? deepLink?.time : undefined;
+    const hasSyncedRouteRef = useRef<boolean>(false);
+
+    // Navigation pushes a history entry. The first sync only replaces, dropping links to courses
+    // or lessons that no longer exist.
+    useEffect(() => {
+        if (!isLibraryLoaded) return;
+        const route: Route = { courseId: currentCourse?.id, lessonId: routeLessonId, time: routeTime };
+        if (!hasSyncedRouteRef.current) {
+            hasSyncedRouteRef.current = true;
+            if (window.location.hash !== formatRoute(route)) window.history.replaceState(null, '', formatRoute(route));
+        } else if (!isSameRoute(parseRoute(window.location.hash), route)) {
+            window.history.pushState(null, '', formatRoute(route));
+        }
+    }, [isLibraryLoaded, currentCourse?.id, routeLessonId, routeTime]);
+
+    // Back/forward (or a link edited by hand) brings the view in line with the URL
+    const applyRoute = (route: Route) => {
+        const course = courses.find(c => c.id === route.courseId);
+        const lesson = findCourseLesson(course, route.lessonId);
+        if (!course) {
+            cancelAutoplay();
+            setCurrentCourseId(null);
+            return;
+        }
+        setCurrentCourseId(course.id);
+        if (activeVideo?.id === lesson?.id) {
+            if (route.time !== undefined) seekTo(route.time);
+        } else if (lesson && activeFiles[lesson.fileKey]) {
+            handlePlayVideo(course.id, lesson, activeFiles, route.time);
+        } else {
+            cancelAutoplay();
+            setActiveVideo(null);
+            setDeepLink(lesson ? route : null);
+        }
     };
 
+    useEffect(() => {
+        const handlePopState = () => applyRoute(parseRoute(window.location.hash));
+        window.addEventListener('popstate', handlePopState);
+        return () => window.removeEventListener('popstate', handlePopState);
+    });
+
+    // Plays the linked lesson once its folder is available, if these files include it
+    const playDeepLink = (fileMap: Record<string, File>) => {
+        if (!deepLink) return;
+        const course = courses.find(c => c.id === deepLink.courseId);
+        const lesson = findCourseLesson(course, deepLink.lessonId);
+        if (course && lesson && fileMap[lesson.fileKey]) handlePlayVideo(course.id, lesson, fileMap, deepLink.time);
+    };
+
+    // Tries the folder remembered for the course before asking for it again
+    const relinkDeepLink = async () => {
+        if (!deepLink?.courseId) return;
+        const restored = await restoreCourseFiles(deepLink.courseId).catch(() => null);
+        if (restored) playDeepLink(restored);
+        else handleDirectoryPick();
+    };
+
+    const pendingSyncCourse = pendingSync && courses.find(c => c.id === pendingSync.courseId);
+    // Storage problems stay on screen, whatever the view, until dismissed
+    const storageNotices = [
+        ...storageIssues.map(issue => ({ key: `library.${issue}`, message: STORAGE_ISSUE_MESSAGES[issue], dismiss: () => dismissStorageIssue(issue) })),
+        ...studyLogIssues.map(issue => ({ key: `studyLog.${issue}`, message: STUDY_LOG_ISSUE_MESSAGES[issue], dismiss: () => dismissStudyLogIssue(issue) }))
+    ];
+
+    const dialogs = (
+        <>
+            {storageNotices.length > 0 && (
+                <div className="fixed bottom-4 right-4 z-50 w-96 max-w-[calc(100vw-2rem)] space-y-2">
+                    {storageNotices.map(notice => (
+                        <div key={notice.key} className="flex items-center gap-3 p-4 bg-zinc-900 border border-amber-500/30 rounded-lg shadow-xl text-sm text-amber-300">
+                            <AlertTriangle className="w-5 h-5 flex-shrink-0" />
+                            <span className="flex-1">{t(notice.message)}</span>
+                            <button className="text-amber-400 hover:text-amber-200" onClick={notice.dismiss} title={t('common.dismiss')}>
+                                <X className="w-4 h-4" />
+                            </button>
+                        </div>
+                    ))}
+                </div>
+            )}
+            {pendingSync && pendingSyncCourse && (
+                <SyncReviewDialog
+                    courseTitle={pendingSyncCourse.title}
+                    reconciliation={pendingSync.reconciliation}
+                    onApply={applyPendingSync}
+                    onCancel={() => setPendingSync(null)}
+                />
+            )}
+            {isSearchOpen && (
+                <SearchDialog
+                    courses={courses}
+                    activeFiles={activeFiles}
+                    onSelect={handleSearchSelect}
+                    onClose={() => setSearchOpen(false)}
+                />
+            )}
+            {pendingBackup && (
+                <ImportBackupDialog
+                    backup={pendingBackup}
+                    onMerge={() => applyBackup('merge')}
+                    onReplace={() => applyBackup('replace')}
+                    onCancel={() => setPendingBackup(null)}
+                />
+            )}
+            {pendingMatch && (
+                <CourseMatchDialog
+                    folderName={pendingMatch.files[0].relativePath.split('/')[0]}
+                    match={pendingMatch.match}
+                    onLink={() => resolvePendingMatch(true)}
+                    onCreate={() => resolvePendingMatch(false)}
+                    onCancel={() => setPendingMatch(null)}
+                />
+            )}
+        </>
+    );
+
+    if (!isLibraryLoaded) {
+        return (
+            <div className="min-h-screen bg-zinc-950 flex items-center justify-center text-zinc-500 text-sm">
+                {t('library.loading')}
+            </div>
+        );
+    }
+
     if (!currentCourse) {
         return (
             <div className="min-h-screen bg-zinc-950 text-zinc-100 font-sans selection:bg-blue-500/30">
+                {dialogs}
                 <div className="max-w-6xl mx-auto p-8">
                     <header className="flex justify-between items-center mb-12">
                         <div className="flex items-center gap-3">
@@ -284,82 +1018,147 @@ export default function OmniLearn() {
                             </div>
                             <h1 className="text-2xl font-bold tracking-tight text-white">OmniLearn <span className="text-blue-500">Local</span></h1>
                         </div>
+                        <div className="flex items-center gap-2">
+                            <label className="flex items-center gap-1.5 px-2 text-zinc-400" title={t('library.language')}>
+                                <Languages className="w-4 h-4" />
+                                <select
+                                    className="bg-transparent text-sm text-zinc-300 focus:outline-none cursor-pointer"
+                                    value={locale}
+                                    onChange={(e) => isLocale(e.target.value) && setLocale(e.target.value)}
+                                >
+                                    {LOCALES.map(l => <option key={l.locale} value={l.locale} className="bg-zinc-900">{l.label}</option>)}
+                                </select>
+                            </label>
+                            <Button variant="ghost" disabled={courses.length === 0} onClick={() => setSearchOpen(true)} title={t('search.shortcutHint')}>
+                                <Search className="w-4 h-4" /> {t('search.button')}
+                            </Button>
+                            <Button variant="outline" disabled={courses.length === 0} onClick={() => exportLibrary()}>
+                                <Download className="w-4 h-4" /> {t('backup.exportLibrary')}
+                            </Button>
+                            <label className="px-4 py-2 rounded-md font-medium transition-all duration-200 flex items-center justify-center gap-2 text-sm border border-zinc-700 text-zinc-300 hover:border-zinc-500 hover:bg-zinc-800/50 cursor-pointer">
+                                <Upload className="w-4 h-4" /> {t('backup.import')}
+                                <input type="file" accept="application/json,.json" className="hidden" onChange={handleBackupSelect} />
+                            </label>
+                        </div>
                     </header>
 
+                    {deletedCurrentCourse && (
+                        <div className="flex items-center gap-3 mb-8 p-4 bg-amber-500/10 border border-amber-500/20 rounded-lg text-sm text-amber-300">
+                            <AlertTriangle className="w-5 h-5 flex-shrink-0" />
+                            <span className="flex-1">{t('library.deletedElsewhere', { title: deletedCurrentCourse.title })}</span>
+                            <button className="text-amber-400 hover:text-amber-200" onClick={() => setCurrentCourseId(null)} title={t('common.dismiss')}>
+                                <X className="w-4 h-4" />
+                            </button>
+                        </div>
+                    )}
+
                     <div className="grid md:grid-cols-2 gap-12 items-start">
                         <div>
                             <h2 className="text-4xl font-extrabold text-white leading-tight mb-6">
-                                Sua central de estudos <br />
+                                {t('library.heroTitle')} <br />
                                 <span className="text-transparent bg-clip-text bg-gradient-to-r from-blue-400 to-emerald-400">
-                                    direto do disco rígido.
+                                    {t('library.heroHighlight')}
                                 </span>
                             </h2>
                             <p className="text-zinc-400 text-lg mb-8 leading-relaxed">
-                                Aponte a pasta dos seus vídeos e nós criamos uma dashboard organizada para você.
-                                Acompanhe seu progresso, renomeie aulas e organize módulos sem alterar os arquivos originais.
+                                {t('library.heroDescription')}
                             </p>
 
-                            <div className="bg-zinc-900/50 border border-zinc-800 rounded-2xl p-8 text-center hover:border-blue-500/50 transition-colors group cursor-pointer relative">
-                                <input
-                                    type="file"
-                                    // Using spread with 'as any' to bypass Typescript errors for webkitdirectory
-                                    {...({ webkitdirectory: "true", directory: "" } as any)}
-                                    multiple
-                                    className="absolute inset-0 w-full h-full opacity-0 cursor-pointer z-10"
-                                    onChange={handleFolderSelect}
-                                />
+                            <div
+                                className="bg-zinc-900/50 border border-zinc-800 rounded-2xl p-8 text-center hover:border-blue-500/50 transition-colors group cursor-pointer relative"
+                                onClick={supportsDirectoryPicker() ? handleDirectoryPick : undefined}
+                            >
+                                {!supportsDirectoryPicker() && (
+                                    <input
+                                        type="file"
+                                        // Using spread with 'as any' to bypass Typescript errors for webkitdirectory
+                                        {...({ webkitdirectory: "true", directory: "" } as any)}
+                                        multiple
+                                        className="absolute inset-0 w-full h-full opacity-0 cursor-pointer z-10"
+                                        onChange={handleFolderSelect}
+                                    />
+                                )}
                                 <div className="w-16 h-16 bg-zinc-800 rounded-full flex items-center justify-center mx-auto mb-4 group-hover:scale-110 transition-transform">
                                     <FolderOpen className="w-8 h-8 text-blue-400" />
                                 </div>
-                                <h3 className="text-xl font-semibold text-white mb-2">Adicionar Novo Curso</h3>
-                                <p className="text-zinc-500 text-sm">Clique para selecionar uma pasta com vídeos no seu computador</p>
+                                <h3 className="text-xl font-semibold text-white mb-2">{t('library.addCourse')}</h3>
+                                <p className="text-zinc-500 text-sm">{t('library.addCourseHint')}</p>
                             </div>
                         </div>
 
                         <div className="space-y-6">
                             <div className="flex items-center justify-between mb-2">
-                                <h3 className="text-lg font-semibold text-zinc-200">Meus Cursos</h3>
-                                <span className="text-xs text-zinc-500 bg-zinc-900 px-2 py-1 rounded border border-zinc-800">{courses.length} Cursos</span>
+                                <h3 className="text-lg font-semibold text-zinc-200">{t('library.myCourses')}</h3>
+                                <span className="text-xs text-zinc-500 bg-zinc-900 px-2 py-1 rounded border border-zinc-800">{t('library.courseCount', { n: courses.length })}</span>
                             </div>
 
                             {courses.length === 0 ? (
                                 <div className="flex flex-col items-center justify-center h-64 border-2 border-dashed border-zinc-800 rounded-xl text-zinc-600">
                                     <Layout className="w-12 h-12 mb-4 opacity-20" />
-                                    <p>Sua biblioteca está vazia.</p>
+                                    <p>{t('library.empty')}</p>
                                 </div>
                             ) : (
                                 <div className="grid gap-4">
                                     {courses.map(course => {
                                         const stats = getCourseStats(course);
+                                        const lastLesson = findCourseLesson(course, course.lastLessonId);
+                                        const coverLesson = lastLesson ?? getCourseLessons(course).find(l => !l.isHidden);
                                         return (
                                             <Card key={course.id} className="group hover:border-zinc-700 transition-all">
                                                 <div className="p-4 flex items-center justify-between">
+                                                    <LessonThumbnail
+                                                        lesson={coverLesson}
+                                                        file={coverLesson && activeFiles[coverLesson.fileKey]}
+                                                        className="w-32 h-20 rounded-lg mr-4 flex-shrink-0"
+                                                    />
                                                     <div
                                                         className="flex-1 cursor-pointer"
-                                                        onClick={() => setCurrentCourseId(course.id)}
+                                                        onClick={() => openCourse(course)}
                                                     >
                                                         <h4 className="font-semibold text-zinc-200 group-hover:text-blue-400 transition-colors">{course.title}</h4>
                                                         <div className="flex items-center gap-4 mt-2 text-xs text-zinc-500">
-                                                            <span className="flex items-center gap-1"><Video className="w-3 h-3" /> {stats.total} aulas</span>
-                                                            <span className="flex items-center gap-1"><CheckCircle className="w-3 h-3" /> {stats.completed} concluídas</span>
+                                                            <span className="flex items-center gap-1"><Video className="w-3 h-3" /> {t('course.lessonCount', { n: stats.total })}</span>
+                                                            <span className="flex items-center gap-1"><CheckCircle className="w-3 h-3" /> {t('course.completedCount', { n: stats.completed })}</span>
+                                                            {stats.totalDuration > 0 && (
+                                                                <span className="flex items-center gap-1" title={t('course.watched', { duration: formatDuration(stats.watchedDuration) })}>
+                                                                    <Timer className="w-3 h-3" /> {t('course.durationRemaining', { total: formatDuration(stats.totalDuration), remaining: formatDuration(stats.remainingDuration) })}
+                                                                </span>
+                                                            )}
                                                         </div>
                                                         <div className="mt-3">
                                                             <ProgressBar progress={stats.percentage} />
                                                         </div>
+                                                        {lastLesson && (
+                                                            <button
+                                                                className="mt-3 flex items-center gap-1.5 text-xs text-blue-400 hover:text-blue-300 max-w-full"
+                                                                onClick={(e) => {
+                                                                    e.stopPropagation();
+                                                                    resumeCourse(course);
+                                                                }}
+                                                            >
+                                                                <RotateCcw className="w-3 h-3 flex-shrink-0" />
+                                                                <span className="truncate">
+                                                                    {t('course.resume', { title: lastLesson.title })}
+                                                                    {lastLesson.lastPosition ? ` (${formatTimestamp(lastLesson.lastPosition)})` : ''}
+                                                                </span>
+                                                            </button>
+                                                        )}
                                                     </div>
 
                                                     <div className="ml-4 flex items-center gap-2">
-                                                        <Button variant="ghost" className="!p-2 text-zinc-600 hover:text-red-400" onClick={() => deleteCourse(course.id)}>
+                                                        <Button variant="ghost" className="!p-2 text-zinc-600 hover:text-zinc-300" title={t('backup.exportCourse')} onClick={() => exportLibrary(course)}>
+                                                            <Download className="w-4 h-4" />
+                                                        </Button>
+                                                        <Button variant="ghost" className="!p-2 text-zinc-600 hover:text-zinc-300" title={t('manifest.export')} onClick={() => exportManifest(course)}>
+                                                            <FileJson className="w-4 h-4" />
+                                                        </Button>
+                                                        <Button variant="ghost" className="!p-2 text-zinc-600 hover:text-red-400" title={t('course.delete')} onClick={() => deleteCourse(course.id)}>
                                                             <Trash2 className="w-4 h-4" />
                                                         </Button>
                                                         <Button
                                                             variant="secondary"
                                                             className="!p-2"
-                                                            onClick={() => {
-                                                                // Hint to user to re-select folder if needed, though clicking plays logic checks files
-                                                                alert("Certifique-se de ter selecionado a pasta deste curso nesta sessão para habilitar o player.");
-                                                                setCurrentCourseId(course.id);
-                                                            }}
+                                                            onClick={() => openCourse(course)}
                                                         >
                                                             <Play className="w-4 h-4 fill-current" />
                                                         </Button>
@@ -370,6 +1169,37 @@ export default function OmniLearn() {
                                     })}
                                 </div>
                             )}
+
+                            {/* Also in the player settings; here it sits next to the queue it turns on */}
+                            {courses.length > 0 && (
+                                <label className="flex items-center justify-between gap-2 px-4 py-3 bg-zinc-900 border border-zinc-800 rounded-lg text-sm text-zinc-300 cursor-pointer" title={t('settings.reviewModeHint')}>
+                                    <span>{t('settings.reviewMode')}</span>
+                                    <input
+                                        type="checkbox"
+                                        className="accent-blue-500"
+                                        checked={isReviewMode}
+                                        onChange={(e) => setReviewMode(e.target.checked)}
+                                    />
+                                </label>
+                            )}
+
+                            {courses.length > 0 && isReviewMode && (
+                                <ReviewQueue
+                                    courses={courses}
+                                    files={activeFiles}
+                                    onRate={rateReview}
+                                    onOpen={(item) => openLessonAt(item.course, item.lesson, item.time)}
+                                />
+                            )}
+
+                            {courses.length > 0 && (
+                                <StudyDashboard
+                                    courses={courses}
+                                    entries={studyLog}
+                                    dailyGoalMinutes={dailyGoalMinutes}
+                                    onDailyGoalChange={setDailyGoalMinutes}
+                                />
+                            )}
                         </div>
                     </div>
                 </div>
@@ -381,8 +1211,248 @@ export default function OmniLearn() {
 
     const courseStats = getCourseStats(currentCourse);
 
+    // activeVideo is a snapshot taken on play; read notes from the live course data
+    const activeLesson = findCourseLesson(currentCourse, activeVideo?.id);
+    const previousLesson = activeVideo ? getAdjacentLesson(currentCourse.id, activeVideo.id, -1) : undefined;
+    const nextLesson = activeVideo ? getAdjacentLesson(currentCourse.id, activeVideo.id, 1) : undefined;
+    const activeModuleAttachments = activeVideo ? findLessonModule(currentCourse, activeVideo.id)?.attachments ?? [] : [];
+    const timelineMarkers: TimelineMarker[] = [
+        ...(activeLesson?.bookmarks ?? []).map(b => ({ id: b.id, time: b.time, label: b.title, kind: 'bookmark' as const })),
+        ...chapters.map((c, i) => ({ id: `chapter_${i}`, time: c.start, label: c.title, kind: 'chapter' as const }))
+    ];
+
+    // Plays a lesson from a given moment, or just seeks when it is already playing
+    const playLessonAt = (lesson: Lesson, time: number) => {
+        if (activeVideo?.id === lesson.id) seekTo(time);
+        else if (activeFiles[lesson.fileKey]) handlePlayVideo(currentCourse.id, lesson, activeFiles, time);
+    };
+
+    // Bookmarks of a lesson, plus the sidecar chapters when it is the one playing
+    const renderLessonMarkers = (lesson: Lesson) => {
+        const isActive = activeVideo?.id === lesson.id;
+        const items = [
+            ...(lesson.bookmarks ?? []).map(b => ({ id: b.id, time: b.time, label: b.title, isBookmark: true, isFlagged: !!b.review })),
+            ...(isActive ? chapters.map((c, i) => ({ id: `chapter_${i}`, time: c.start, label: c.title, isBookmark: false, isFlagged: false })) : [])
+        ].sort((a, b) => a.time - b.time);
+        if (items.length === 0) return null;
+
+        return (
+            <ul className="ml-11 mb-1 space-y-0.5">
+                {items.map(item => (
+                    <li
+                        key={item.id}
+                        className="group/marker flex items-center gap-2 px-2 py-1 rounded text-xs text-zinc-400 hover:bg-zinc-800 hover:text-zinc-200 cursor-pointer"
+                        onClick={() => playLessonAt(lesson, item.time)}
+                    >
+                        {item.isBookmark
+                            ? <Bookmark className="w-3 h-3 text-amber-400 flex-shrink-0" />
+                            : <ListOrdered className="w-3 h-3 text-zinc-500 flex-shrink-0" />}
+                        <span className="font-mono text-[10px] text-blue-400">{formatTimestamp(item.time)}</span>
+                        <span className="flex-1 truncate">{item.label}</span>
+                        {item.isBookmark && isReviewMode && (
+                            <button
+                                className={item.isFlagged ? 'text-purple-400 hover:text-purple-300' : 'opacity-0 group-hover/marker:opacity-100 text-zinc-500 hover:text-purple-400'}
+                                title={item.isFlagged ? t('review.unflag') : t('review.flag')}
+                                onClick={(e) => {
+                                    e.stopPropagation();
+                                    toggleBookmarkReview(currentCourse.id, lesson.id, item.id);
+                                }}
+                            >
+                                <Brain className="w-3 h-3" />
+                            </button>
+                        )}
+                        {item.isBookmark && (
+                            <button
+                                className="opacity-0 group-hover/marker:opacity-100 text-zinc-500 hover:text-red-400"
+                                title={t('bookmark.delete')}
+                                onClick={(e) => {
+                                    e.stopPropagation();
+                                    deleteBookmark(currentCourse.id, lesson.id, item.id);
+                                }}
+                            >
+                                <X className="w-3 h-3" />
+                            </button>
+                        )}
+                    </li>
+                ))}
+            </ul>
+        );
+    };
+
+    const renderLesson = (lesson: Lesson, module: Module) => {
+        const isActive = activeVideo?.id === lesson.id;
+        const isFileAvailable = !!activeFiles[lesson.fileKey];
+
+        return (
+            <div key={lesson.id}>
+                <div
+                    draggable={editingLessonId !== lesson.id}
+                    onDragStart={(e) => {
+                        e.dataTransfer.effectAllowed = 'move';
+                        setDragItem({ kind: 'lesson', id: lesson.id });
+                    }}
+                    onDragEnd={endDrag}
+                    {...dropTargetProps(currentCourse.id, lesson.id, module.id, lesson.id)}
+                    className={`
+                        group flex items-center gap-3 p-3 rounded-lg cursor-pointer transition-all
+                        ${isActive ? 'bg-blue-600/10 border border-blue-600/20' : 'hover:bg-zinc-800 border border-transparent'}
+                        ${!isFileAvailable || lesson.isHidden ? 'opacity-50' : ''}
+                        ${dropTargetId === lesson.id ? 'border-t-blue-500' : ''}
+                      `}
+                    onClick={() => isFileAvailable && handlePlayVideo(currentCourse.id, lesson)}
+                >
+                    <button
+                        className={`flex-shrink-0 transition-colors ${lesson.isCompleted ? 'text-green-500' : 'text-zinc-600 hover:text-zinc-400'}`}
+                        title={lesson.isCompleted ? t('lesson.markIncomplete') : t('lesson.markComplete')}
+                        onClick={(e) => toggleLessonCompletion(currentCourse.id, lesson.id, e)}
+                    >
+                        {lesson.isCompleted ? <CheckCircle className="w-5 h-5 fill-current" /> : <Circle className="w-5 h-5" />}
+                    </button>
+
+                    <LessonThumbnail lesson={lesson} file={activeFiles[lesson.fileKey]} className="w-16 h-9 rounded flex-shrink-0" />
+
+                    <div className="flex-1 min-w-0">
+                        {editingLessonId === lesson.id ? (
+                            <input
+                                autoFocus
+                                className="w-full bg-zinc-950 border border-blue-500 rounded px-1 py-0.5 text-sm text-white focus:outline-none"
+                                value={tempLessonTitle}
+                                onChange={(e) => setTempLessonTitle(e.target.value)}
+                                onBlur={() => renameLesson(currentCourse.id, lesson.id, tempLessonTitle)}
+                                onKeyDown={(e) => e.key === 'Enter' && renameLesson(currentCourse.id, lesson.id, tempLessonTitle)}
+                                onClick={(e) => e.stopPropagation()}
+                            />
+                        ) : (
+                            <div className="flex justify-between items-start gap-2">
+                                <p className={`text-sm font-medium truncate ${isActive ? 'text-blue-400' : 'text-zinc-300'}`}>
+                                    {lesson.title}
+                                </p>
+                            </div>
+                        )}
+                        <div className="flex items-center gap-2 mt-1">
+                            <span className="text-[10px] text-zinc-500 bg-zinc-900/50 px-1.5 py-0.5 rounded border border-zinc-800/50">
+                                {isFileAvailable ? t('lesson.available') : lesson.isMissing ? t('lesson.removedFromDisk') : t('lesson.fileMissing')}
+                            </span>
+                            {lesson.duration > 0 && (
+                                <span className="text-[10px] text-zinc-500 font-mono">{formatTimestamp(lesson.duration)}</span>
+                            )}
+                            {(lesson.attachments ?? []).length > 0 && (
+                                <span className="flex items-center gap-0.5 text-[10px] text-zinc-500" title={t('attachments.title')}>
+                                    <Paperclip className="w-3 h-3" /> {lesson.attachments?.length}
+                                </span>
+                            )}
+                        </div>
+                    </div>
+
+                    <button
+                        className="opacity-0 group-hover:opacity-100 p-1.5 text-zinc-500 hover:text-zinc-300 hover:bg-zinc-700 rounded transition-all"
+                        title={lesson.isHidden ? t('lesson.show') : t('lesson.hide')}
+                        onClick={(e) => {
+                            e.stopPropagation();
+                            updateLesson(currentCourse.id, lesson.id, l => ({ ...l, isHidden: !l.isHidden }));
+                        }}
+                    >
+                        {lesson.isHidden ? <Eye className="w-3.5 h-3.5" /> : <EyeOff className="w-3.5 h-3.5" />}
+                    </button>
+                    <button
+                        className="opacity-0 group-hover:opacity-100 p-1.5 text-zinc-500 hover:text-zinc-300 hover:bg-zinc-700 rounded transition-all"
+                        title={t('lesson.rename')}
+                        onClick={(e) => {
+                            e.stopPropagation();
+                            setEditingLessonId(lesson.id);
+                            setTempLessonTitle(lesson.title);
+                        }}
+                    >
+                        <Edit3 className="w-3.5 h-3.5" />
+                    </button>
+                </div>
+                {renderLessonMarkers(lesson)}
+            </div>
+        );
+    };
+
+    // Collapsible node of the module tree; stats include every lesson below it.
+    // The header is both a drag handle for the module and a drop target for lessons and modules.
+    const renderModule = (module: Module, depth: number): React.ReactNode => {
+        const moduleStats = getLessonStats(getModuleLessons(module), progressMode);
+        const isCollapsed = !!collapsedModules[module.id];
+        const isEmpty = module.lessons.length === 0 && (module.modules ?? []).length === 0;
+        const lessons = showHiddenLessons ? module.lessons : module.lessons.filter(l => !l.isHidden);
+        return (
+            <div key={module.id} className={depth === 0 ? 'mb-4' : 'mt-2 ml-3'}>
+                <div
+                    draggable={editingModuleId !== module.id}
+                    onDragStart={(e) => {
+                        e.dataTransfer.effectAllowed = 'move';
+                        setDragItem({ kind: 'module', id: module.id });
+                    }}
+                    onDragEnd={endDrag}
+                    {...dropTargetProps(currentCourse.id, module.id, module.id)}
+                    className={`group flex items-center gap-2 px-2 py-1 rounded text-zinc-500 hover:text-zinc-300 font-medium text-xs uppercase tracking-wider mb-2 cursor-pointer ${dropTargetId === module.id ? 'bg-blue-600/10 ring-1 ring-blue-500/40' : ''}`}
+                    onClick={() => setCollapsedModules(prev => ({ ...prev, [module.id]: !isCollapsed }))}
+                >
+                    <GripVertical className="w-3 h-3 text-zinc-700 cursor-grab" />
+                    {isCollapsed ? <ChevronRight className="w-3 h-3" /> : <ChevronDown className="w-3 h-3" />}
+                    <FolderOpen className="w-3 h-3" />
+                    {editingModuleId === module.id ? (
+                        <input
+                            autoFocus
+                            className="flex-1 min-w-0 bg-zinc-950 border border-blue-500 rounded px-1 py-0.5 normal-case tracking-normal text-white focus:outline-none"
+                            value={tempModuleTitle}
+                            onChange={(e) => setTempModuleTitle(e.target.value)}
+                            onBlur={() => commitModuleRename(currentCourse.id, module.id, tempModuleTitle)}
+                            onKeyDown={(e) => e.key === 'Enter' && commitModuleRename(currentCourse.id, module.id, tempModuleTitle)}
+                            onClick={(e) => e.stopPropagation()}
+                        />
+                    ) : (
+                        <span className="flex-1 truncate text-left">{getModuleTitle(module, t)}</span>
+                    )}
+                    <button
+                        className="opacity-0 group-hover:opacity-100 text-zinc-500 hover:text-zinc-300"
+                        title={t('module.rename')}
+                        onClick={(e) => {
+                            e.stopPropagation();
+                            setEditingModuleId(module.id);
+                            setTempModuleTitle(getModuleTitle(module, t));
+                        }}
+                    >
+                        <Edit3 className="w-3 h-3" />
+                    </button>
+                    {isEmpty && (
+                        <button
+                            className="opacity-0 group-hover:opacity-100 text-zinc-500 hover:text-red-400"
+                            title={t('module.deleteEmpty')}
+                            onClick={(e) => {
+                                e.stopPropagation();
+                                updateCourse(currentCourse.id, c => removeModule(c, module.id));
+                            }}
+                        >
+                            <Trash2 className="w-3 h-3" />
+                        </button>
+                    )}
+                    <span className="normal-case tracking-normal text-[10px] text-zinc-600">
+                        {moduleStats.completed}/{moduleStats.total}
+                        {moduleStats.totalDuration > 0 && ` · ${t('module.watchedOfTotal', { watched: formatDuration(moduleStats.watchedDuration), total: formatDuration(moduleStats.totalDuration) })}`}
+                    </span>
+                </div>
+                {!isCollapsed && (
+                    <div className={depth > 0 ? 'border-l border-zinc-800 pl-1' : ''}>
+                        <div className="space-y-0.5">
+                            {lessons.map(lesson => renderLesson(lesson, module))}
+                        </div>
+                        {(module.modules ?? []).map(child => renderModule(child, depth + 1))}
+                        {dragItem?.id !== module.id && renderModuleDropZone(currentCourse.id, `inside:${module.id}`, t('module.dropInside', { title: getModuleTitle(module, t) }), module.id)}
+                    </div>
+                )}
+            </div>
+        );
+    };
+
+    const hiddenLessonCount = getCourseLessons(currentCourse).filter(l => l.isHidden).length;
+
     return (
         <div className="flex h-screen bg-zinc-950 text-zinc-100 overflow-hidden font-sans">
+            {dialogs}
 
             {/* Sidebar - Course Content */}
             <div
@@ -392,103 +1462,127 @@ export default function OmniLearn() {
                     <h2 className="font-bold text-zinc-100 truncate flex-1 pr-2" title={currentCourse.title}>
                         {currentCourse.title}
                     </h2>
-                    <button onClick={() => setCurrentCourseId(null)} className="text-zinc-500 hover:text-white">
+                    <button
+                        onClick={() => setSearchOpen(true)}
+                        className="mr-3 text-zinc-500 hover:text-white"
+                        title={t('search.shortcutHint')}
+                    >
+                        <Search className="w-4 h-4" />
+                    </button>
+                    <button
+                        onClick={() => setSettingsOpen(!isSettingsOpen)}
+                        className={`mr-3 ${isSettingsOpen ? 'text-white' : 'text-zinc-500 hover:text-white'}`}
+                        title={t('settings.title')}
+                    >
+                        <Settings className="w-4 h-4" />
+                    </button>
+                    <button
+                        onClick={() => {
+                            cancelAutoplay();
+                            setCurrentCourseId(null);
+                        }}
+                        className="text-zinc-500 hover:text-white"
+                        title={t('course.close')}
+                    >
                         <X className="w-5 h-5" />
                     </button>
                 </div>
 
                 <div className="p-4 bg-zinc-900/50 border-b border-zinc-800">
                     <div className="flex justify-between text-xs text-zinc-400 mb-1">
-                        <span>Progresso do Curso</span>
-                        <span>{courseStats.percentage}%</span>
+                        <span>{t('progress.title')}</span>
+                        <button
+                            className="hover:text-white transition-colors"
+                            title={t('progress.toggleMode')}
+                            onClick={() => setProgressMode(progressMode === 'lessons' ? 'duration' : 'lessons')}
+                        >
+                            {t(progressMode === 'lessons' ? 'progress.percentOfLessons' : 'progress.percentOfTime', { percent: courseStats.percentage })}
+                        </button>
                     </div>
                     <ProgressBar progress={courseStats.percentage} />
+                    {courseStats.totalDuration > 0 && (
+                        <div className="flex justify-between mt-2 text-[11px] text-zinc-500">
+                            <span>{t('progress.total', { duration: formatDuration(courseStats.totalDuration) })}</span>
+                            <span>{t('progress.watched', { duration: formatDuration(courseStats.watchedDuration) })}</span>
+                            <span>{t('progress.remaining', { duration: formatDuration(courseStats.remainingDuration) })}</span>
+                        </div>
+                    )}
                     <div className="mt-4">
-                        <label className="flex items-center gap-2 w-full p-2 bg-blue-600/10 border border-blue-500/20 rounded-md text-xs text-blue-400 cursor-pointer hover:bg-blue-600/20 transition-colors">
+                        <label
+                            className="flex items-center gap-2 w-full p-2 bg-blue-600/10 border border-blue-500/20 rounded-md text-xs text-blue-400 cursor-pointer hover:bg-blue-600/20 transition-colors"
+                            onClick={supportsDirectoryPicker() ? handleDirectoryPick : undefined}
+                        >
                             <FolderOpen className="w-4 h-4" />
-                            <span>Re-vincular pasta (se necessário)</span>
-                            <input
-                                type="file"
-                                // Using spread with 'as any' to bypass Typescript errors for webkitdirectory
-                                {...({ webkitdirectory: "true", directory: "" } as any)}
-                                multiple
-                                className="hidden"
-                                onChange={handleFolderSelect}
-                            />
+                            <span>{t('course.relinkFolder')}</span>
+                            {!supportsDirectoryPicker() && (
+                                <input
+                                    type="file"
+                                    // Using spread with 'as any' to bypass Typescript errors for webkitdirectory
+                                    {...({ webkitdirectory: "true", directory: "" } as any)}
+                                    multiple
+                                    className="hidden"
+                                    onChange={handleFolderSelect}
+                                />
+                            )}
                         </label>
                     </div>
+                    {isSettingsOpen && (
+                        <div className="mt-4 space-y-3 p-3 bg-zinc-950 border border-zinc-800 rounded-md text-xs text-zinc-400">
+                            <label className="flex items-center justify-between gap-2">
+                                <span>{t('settings.autoComplete')}</span>
+                                <select
+                                    className="bg-zinc-900 border border-zinc-700 rounded px-1.5 py-1 text-zinc-200 focus:outline-none"
+                                    value={playbackSettings.autoCompleteThreshold}
+                                    onChange={(e) => setPlaybackSettings({ ...playbackSettings, autoCompleteThreshold: Number(e.target.value) })}
+                                >
+                                    <option value={0}>{t('settings.autoCompleteOff')}</option>
+                                    {[80, 90, 95, 100].map(percent => (
+                                        <option key={percent} value={percent / 100}>{t('settings.autoCompleteAt', { percent })}</option>
+                                    ))}
+                                </select>
+                            </label>
+                            <label className="flex items-center justify-between gap-2 cursor-pointer">
+                                <span>{t('settings.autoplayNext')}</span>
+                                <input
+                                    type="checkbox"
+                                    className="accent-blue-500"
+                                    checked={playbackSettings.autoplayNext}
+                                    onChange={(e) => setPlaybackSettings({ ...playbackSettings, autoplayNext: e.target.checked })}
+                                />
+                            </label>
+                            <label className="flex items-center justify-between gap-2 cursor-pointer" title={t('settings.reviewModeHint')}>
+                                <span>{t('settings.reviewMode')}</span>
+                                <input
+                                    type="checkbox"
+                                    className="accent-blue-500"
+                                    checked={isReviewMode}
+                                    onChange={(e) => setReviewMode(e.target.checked)}
+                                />
+                            </label>
+                        </div>
+                    )}
                 </div>
 
                 <div className="flex-1 overflow-y-auto custom-scrollbar p-2 space-y-2">
-                    {currentCourse.modules.map(module => (
-                        <div key={module.id} className="mb-4">
-                            <div className="flex items-center gap-2 px-2 py-1 text-zinc-500 font-medium text-xs uppercase tracking-wider mb-2">
-                                <FolderOpen className="w-3 h-3" />
-                                {module.title}
-                            </div>
-                            <div className="space-y-0.5">
-                                {module.lessons.map(lesson => {
-                                    const isActive = activeVideo?.id === lesson.id;
-                                    const isFileAvailable = !!activeFiles[lesson.fileKey];
-
-                                    return (
-                                        <div
-                                            key={lesson.id}
-                                            className={`
-                        group flex items-center gap-3 p-3 rounded-lg cursor-pointer transition-all
-                        ${isActive ? 'bg-blue-600/10 border border-blue-600/20' : 'hover:bg-zinc-800 border border-transparent'}
-                        ${!isFileAvailable ? 'opacity-50' : ''}
-                      `}
-                                            onClick={() => isFileAvailable && handlePlayVideo(lesson)}
-                                        >
-                                            <button
-                                                className={`flex-shrink-0 transition-colors ${lesson.isCompleted ? 'text-green-500' : 'text-zinc-600 hover:text-zinc-400'}`}
-                                                onClick={(e) => toggleLessonCompletion(currentCourse.id, module.id, lesson.id, e)}
-                                            >
-                                                {lesson.isCompleted ? <CheckCircle className="w-5 h-5 fill-current" /> : <Circle className="w-5 h-5" />}
-                                            </button>
-
-                                            <div className="flex-1 min-w-0">
-                                                {editingLessonId === lesson.id ? (
-                                                    <input
-                                                        autoFocus
-                                                        className="w-full bg-zinc-950 border border-blue-500 rounded px-1 py-0.5 text-sm text-white focus:outline-none"
-                                                        value={tempLessonTitle}
-                                                        onChange={(e) => setTempLessonTitle(e.target.value)}
-                                                        onBlur={() => renameLesson(currentCourse.id, module.id, lesson.id, tempLessonTitle)}
-                                                        onKeyDown={(e) => e.key === 'Enter' && renameLesson(currentCourse.id, module.id, lesson.id, tempLessonTitle)}
-                                                        onClick={(e) => e.stopPropagation()}
-                                                    />
-                                                ) : (
-                                                    <div className="flex justify-between items-start gap-2">
-                                                        <p className={`text-sm font-medium truncate ${isActive ? 'text-blue-400' : 'text-zinc-300'}`}>
-                                                            {lesson.title}
-                                                        </p>
-                                                    </div>
-                                                )}
-                                                <div className="flex items-center gap-2 mt-1">
-                                                    <span className="text-[10px] text-zinc-500 bg-zinc-900/50 px-1.5 py-0.5 rounded border border-zinc-800/50">
-                                                        {isFileAvailable ? 'Disponível' : 'Arquivo Ausente'}
-                                                    </span>
-                                                </div>
-                                            </div>
-
-                                            <button
-                                                className="opacity-0 group-hover:opacity-100 p-1.5 text-zinc-500 hover:text-zinc-300 hover:bg-zinc-700 rounded transition-all"
-                                                onClick={(e) => {
-                                                    e.stopPropagation();
-                                                    setEditingLessonId(lesson.id);
-                                                    setTempLessonTitle(lesson.title);
-                                                }}
-                                            >
-                                                <Edit3 className="w-3.5 h-3.5" />
-                                            </button>
-                                        </div>
-                                    );
-                                })}
-                            </div>
-                        </div>
-                    ))}
+                    {currentCourse.modules.map(module => renderModule(module, 0))}
+                    {renderModuleDropZone(currentCourse.id, 'end', t('module.dropAtEnd'))}
+                    <div className="flex items-center justify-between gap-2 px-2 pb-2 text-xs">
+                        <button
+                            className="flex items-center gap-1.5 text-zinc-500 hover:text-white transition-colors"
+                            onClick={() => handleCreateModule(currentCourse.id)}
+                        >
+                            <FolderPlus className="w-3.5 h-3.5" /> {t('module.create')}
+                        </button>
+                        {hiddenLessonCount > 0 && (
+                            <button
+                                className="flex items-center gap-1.5 text-zinc-500 hover:text-white transition-colors"
+                                onClick={() => setShowHiddenLessons(!showHiddenLessons)}
+                            >
+                                {showHiddenLessons ? <EyeOff className="w-3.5 h-3.5" /> : <Eye className="w-3.5 h-3.5" />}
+                                {showHiddenLessons ? t('lesson.hideHidden') : t('lesson.showHidden', { n: hiddenLessonCount })}
+                            </button>
+                        )}
+                    </div>
                 </div>
             </div>
 
@@ -498,6 +1592,7 @@ export default function OmniLearn() {
                     <button
                         onClick={() => setSidebarOpen(!isSidebarOpen)}
                         className="p-2 bg-zinc-900/80 backdrop-blur border border-zinc-700 text-zinc-300 rounded-md hover:text-white shadow-lg"
+                        title={isSidebarOpen ? t('sidebar.hide') : t('sidebar.show')}
                     >
                         {isSidebarOpen ? <ChevronRight className="w-5 h-5" /> : <Menu className="w-5 h-5" />}
                     </button>
@@ -505,43 +1600,227 @@ export default function OmniLearn() {
 
                 {activeVideo ? (
                     <div className="flex-1 flex flex-col">
-                        <div className="flex-1 bg-black flex items-center justify-center relative shadow-inner shadow-zinc-900">
+                        <div ref={playerContainerRef} className="group/player flex-1 bg-black flex items-center justify-center relative shadow-inner shadow-zinc-900">
                             {/* Video Player Wrapper */}
                             <video
+                                ref={videoRef}
                                 key={activeVideo.url} // Force reload on url change
-                                controls
                                 autoPlay
                                 className="max-h-full w-full aspect-video outline-none"
+                                onClick={(e) => e.currentTarget.paused ? e.currentTarget.play().catch(() => undefined) : e.currentTarget.pause()}
+                                onLoadedMetadata={handleVideoLoaded}
+                                onTimeUpdate={handleVideoTimeUpdate}
+                                onSeeked={handleVideoSeeked}
+                                onPause={(e) => savePlaybackPosition(activeVideo, e.currentTarget.currentTime)}
+                                onEnded={() => handleVideoEnded(activeVideo)}
                             >
-                                <source src={activeVideo.url} type="video/mp4" />
-                                Seu navegador não suporta a tag de vídeo.
+                                <source src={activeVideo.url} type={activeVideo.mimeType} />
+                                {subtitleTracks.map(track => (
+                                    <track key={track.id} id={track.id} kind="subtitles" src={track.url} label={track.label} srcLang={track.language} />
+                                ))}
+                                {t('player.unsupported')}
                             </video>
+                            <VideoControls
+                                key={activeVideo.url}
+                                videoRef={videoRef}
+                                containerRef={playerContainerRef}
+                                file={activeFiles[activeVideo.fileKey]}
+                                playbackRate={playbackRates[currentCourse.id] ?? 1}
+                                isCompleted={!!activeLesson?.isCompleted}
+                                markers={timelineMarkers}
+                                onAddBookmark={(time) => addBookmark(currentCourse.id, activeVideo.id, time)}
+                                onPlaybackRateChange={(rate) => setPlaybackRates({ ...playbackRates, [currentCourse.id]: rate })}
+                                onToggleComplete={() => updateLesson(currentCourse.id, activeVideo.id, l => ({ ...l, isCompleted: !l.isCompleted }))}
+                                onPrevious={previousLesson && activeFiles[previousLesson.fileKey] ? () => handlePlayVideo(currentCourse.id, previousLesson) : undefined}
+                                onNext={nextLesson && activeFiles[nextLesson.fileKey] ? () => handlePlayVideo(currentCourse.id, nextLesson) : undefined}
+                            />
+
+                            {autoplayCountdown && (
+                                <div className="absolute inset-0 bg-black/70 flex items-center justify-center z-10">
+                                    <div className="text-center max-w-md px-6">
+                                        <p className="text-zinc-400 text-sm mb-1">{t('player.nextIn', { n: autoplayCountdown.seconds })}</p>
+                                        <h3 className="text-xl font-semibold text-white mb-6 truncate">{autoplayCountdown.lesson.title}</h3>
+                                        <div className="flex justify-center gap-3">
+                                            <Button variant="secondary" onClick={cancelAutoplay}>{t('common.cancel')}</Button>
+                                            <Button onClick={() => handlePlayVideo(currentCourse.id, autoplayCountdown.lesson)}>
+                                                <Play className="w-4 h-4 fill-current" /> {t('player.playNow')}
+                                            </Button>
+                                        </div>
+                                    </div>
+                                </div>
+                            )}
                         </div>
                         <div className="p-6 border-t border-zinc-800 bg-zinc-950">
                             <div className="max-w-4xl mx-auto">
-                                <h1 className="text-2xl font-bold text-white mb-2">{activeVideo.title}</h1>
-                                <p className="text-zinc-500 text-sm flex items-center gap-2">
-                                    <span className="bg-zinc-900 px-2 py-1 rounded text-zinc-400 border border-zinc-800 font-mono text-xs">{activeVideo.originalName}</span>
-                                </p>
+                                <div className="flex items-start justify-between gap-4">
+                                    <div className="min-w-0">
+                                        <h1 className="text-2xl font-bold text-white mb-2">{activeVideo.title}</h1>
+                                        {activeLesson?.description && (
+                                            <p className="text-sm text-zinc-400 mb-3 whitespace-pre-wrap">{activeLesson.description}</p>
+                                        )}
+                                        <p className="text-zinc-500 text-sm flex items-center gap-2">
+                                            <span className="bg-zinc-900 px-2 py-1 rounded text-zinc-400 border border-zinc-800 font-mono text-xs">{activeVideo.originalName}</span>
+                                            <span className="flex items-center gap-1.5 text-xs">
+                                                <Captions className="w-4 h-4" />
+                                                <select
+                                                    className="bg-zinc-900 border border-zinc-800 rounded px-1.5 py-1 text-zinc-300 focus:outline-none"
+                                                    value={selectedSubtitle?.id ?? 'off'}
+                                                    onChange={(e) => {
+                                                        const track = subtitleTracks.find(tr => tr.id === e.target.value);
+                                                        setSubtitleLanguage(track ? track.language ?? track.id : 'off');
+                                                    }}
+                                                >
+                                                    <option value="off">{t('subtitles.off')}</option>
+                                                    {subtitleTracks.map(track => (
+                                                        <option key={track.id} value={track.id}>{track.label}</option>
+                                                    ))}
+                                                </select>
+                                                <label className="cursor-pointer text-blue-400 hover:text-blue-300">
+                                                    {t('subtitles.load')}
+                                                    <input
+                                                        type="file"
+                                                        accept=".srt,.vtt"
+                                                        className="hidden"
+                                                        onChange={(e) => handleSubtitleSelect(currentCourse.id, activeVideo.id, e)}
+                                                    />
+                                                </label>
+                                            </span>
+                                        </p>
+                                    </div>
+                                    <div className="flex gap-2 flex-shrink-0">
+                                        <Button
+                                            variant="outline"
+                                            disabled={!previousLesson}
+                                            className="disabled:opacity-40 disabled:pointer-events-none"
+                                            onClick={() => previousLesson && handlePlayVideo(currentCourse.id, previousLesson)}
+                                        >
+                                            <SkipBack className="w-4 h-4" /> {t('player.previous')}
+                                        </Button>
+                                        <Button
+                                            variant="outline"
+                                            disabled={!nextLesson}
+                                            className="disabled:opacity-40 disabled:pointer-events-none"
+                                            onClick={() => nextLesson && handlePlayVideo(currentCourse.id, nextLesson)}
+                                        >
+                                            {t('player.next')} <SkipForward className="w-4 h-4" />
+                                        </Button>
+                                    </div>
+                                </div>
+
+                                {((activeLesson?.attachments ?? []).length > 0 || activeModuleAttachments.length > 0) && (
+                                    <div className="mt-6 bg-zinc-900/50 p-4 rounded-xl border border-zinc-800">
+                                        <h3 className="flex items-center gap-2 text-sm font-semibold text-zinc-300 mb-2">
+                                            <Paperclip className="w-4 h-4" /> {t('attachments.title')}
+                                        </h3>
+                                        {(activeLesson?.attachments ?? []).length > 0 && (
+                                            <AttachmentList key={activeVideo.id} attachments={activeLesson?.attachments ?? []} files={activeFiles} />
+                                        )}
+                                        {activeModuleAttachments.length > 0 && (
+                                            <>
+                                                <p className="mt-3 mb-1 px-2 text-[11px] uppercase tracking-wider text-zinc-500">{t('attachments.fromModule')}</p>
+                                                <AttachmentList key={`module_${activeVideo.id}`} attachments={activeModuleAttachments} files={activeFiles} />
+                                            </>
+                                        )}
+                                    </div>
+                                )}
 
                                 <div className="mt-6 flex gap-4 border-t border-zinc-900 pt-6">
                                     <div className="flex-1 bg-zinc-900/50 p-4 rounded-xl border border-zinc-800">
-                                        <h3 className="text-sm font-semibold text-zinc-300 mb-2">Anotações da Aula</h3>
+                                        <h3 className="text-sm font-semibold text-zinc-300 mb-2">{t('notes.title')}</h3>
                                         <textarea
                                             className="w-full bg-transparent text-zinc-400 text-sm focus:outline-none resize-none h-24"
-                                            placeholder="Escreva suas anotações aqui..."
+                                            placeholder={t('notes.placeholder')}
+                                            value={activeLesson?.notes ?? ''}
+                                            onChange={(e) => updateLessonNotes(currentCourse.id, activeVideo.id, e.target.value)}
                                         />
+
+                                        <div className="mt-4 pt-4 border-t border-zinc-800">
+                                            <div className="flex gap-2">
+                                                <input
+                                                    className="flex-1 bg-zinc-950 border border-zinc-800 rounded-md px-3 py-2 text-sm text-zinc-300 focus:outline-none focus:border-blue-500"
+                                                    placeholder={t('notes.timedPlaceholder')}
+                                                    value={noteDraft}
+                                                    onChange={(e) => setNoteDraft(e.target.value)}
+                                                    onKeyDown={(e) => e.key === 'Enter' && addTimedNote(currentCourse.id, activeVideo.id)}
+                                                />
+                                                <Button
+                                                    variant="secondary"
+                                                    disabled={!noteDraft.trim()}
+                                                    onClick={() => addTimedNote(currentCourse.id, activeVideo.id)}
+                                                >
+                                                    <Plus className="w-4 h-4" /> {t('notes.addAtCurrentTime')}
+                                                </Button>
+                                            </div>
+
+                                            {(activeLesson?.timedNotes ?? []).length > 0 && (
+                                                <ul className="mt-3 space-y-1">
+                                                    {activeLesson?.timedNotes?.map(note => (
+                                                        <li
+                                                            key={note.id}
+                                                            className="group flex items-start gap-3 p-2 rounded-md hover:bg-zinc-800 cursor-pointer"
+                                                            onClick={() => seekTo(note.time)}
+                                                        >
+                                                            <span className="flex items-center gap-1 text-xs font-mono text-blue-400 bg-blue-600/10 px-1.5 py-0.5 rounded">
+                                                                <Clock className="w-3 h-3" /> {formatTimestamp(note.time)}
+                                                            </span>
+                                                            <p className="flex-1 text-sm text-zinc-300 break-words">{note.text}</p>
+                                                            {isReviewMode && (
+                                                                <button
+                                                                    className={note.review ? 'text-purple-400 hover:text-purple-300' : 'opacity-0 group-hover:opacity-100 text-zinc-500 hover:text-purple-400 transition-all'}
+                                                                    title={note.review ? t('review.unflag') : t('review.flag')}
+                                                                    onClick={(e) => {
+                                                                        e.stopPropagation();
+                                                                        toggleNoteReview(currentCourse.id, activeVideo.id, note.id);
+                                                                    }}
+                                                                >
+                                                                    <Brain className="w-3.5 h-3.5" />
+                                                                </button>
+                                                            )}
+                                                            <button
+                                                                className="opacity-0 group-hover:opacity-100 text-zinc-500 hover:text-red-400 transition-all"
+                                                                title={t('notes.delete')}
+                                                                onClick={(e) => {
+                                                                    e.stopPropagation();
+                                                                    deleteTimedNote(currentCourse.id, activeVideo.id, note.id);
+                                                                }}
+                                                            >
+                                                                <Trash2 className="w-3.5 h-3.5" />
+                                                            </button>
+                                                        </li>
+                                                    ))}
+                                                </ul>
+                                            )}
+                                        </div>
                                     </div>
                                 </div>
                             </div>
                         </div>
                     </div>
+                ) : deepLinkLesson ? (
+                    <div className="flex-1 flex flex-col items-center justify-center text-center px-8 text-zinc-400">
+                        <div className="w-24 h-24 bg-zinc-900 rounded-full flex items-center justify-center mb-6 shadow-2xl shadow-black">
+                            <FolderOpen className="w-10 h-10 text-blue-400 opacity-80" />
+                        </div>
+                        <p className="text-lg font-medium text-zinc-200">{deepLinkLesson.title}</p>
+                        <p className="mt-1 text-sm text-zinc-500">
+                            {currentCourse.title}
+                            {deepLink?.time ? ` · ${t('deepLink.startingAt', { time: formatTimestamp(deepLink.time) })}` : ''}
+                        </p>
+                        <p className="mt-6 max-w-md text-sm">{t('deepLink.folderNeeded')}</p>
+                        {supportsDirectoryPicker() ? (
+                            <Button className="mt-6" onClick={relinkDeepLink}>
+                                <FolderOpen className="w-4 h-4" /> {t('deepLink.openFolder')}
+                            </Button>
+                        ) : (
+                            <p className="mt-6 text-xs text-zinc-500">{t('deepLink.useSidebar')}</p>
+                        )}
+                    </div>
                 ) : (
                     <div className="flex-1 flex flex-col items-center justify-center text-zinc-600">
                         <div className="w-24 h-24 bg-zinc-900 rounded-full flex items-center justify-center mb-6 shadow-2xl shadow-black">
                             <Play className="w-10 h-10 ml-1 opacity-50" />
                         </div>
-                        <p className="text-lg font-medium text-zinc-500">Selecione uma aula na barra lateral para começar</p>
+                        <p className="text-lg font-medium text-zinc-500">{t('player.selectLesson')}</p>
                     </div>
                 )}
             </div>
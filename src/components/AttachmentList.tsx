@@ -0,0 +1,155 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Archive, Download, ExternalLink, FileCode, FileText, Image, Link, Presentation, X } from 'lucide-react';
+import type { Attachment, AttachmentKind } from '@/lib/types';
+import { readLinkTarget } from '@/lib/attachments';
+import { downloadBlob } from '@/lib/download';
+import { useI18n } from '@/hooks/useI18n';
+
+interface AttachmentListProps {
+    attachments: Attachment[];
+    files: Record<string, File>;
+}
+
+const KIND_ICONS: Record<AttachmentKind, React.ReactNode> = {
+    pdf: <FileText className="w-4 h-4 text-red-400" />,
+    image: <Image className="w-4 h-4 text-purple-400" />,
+    text: <FileCode className="w-4 h-4 text-green-400" />,
+    link: <Link className="w-4 h-4 text-blue-400" />,
+    slides: <Presentation className="w-4 h-4 text-orange-400" />,
+    document: <FileText className="w-4 h-4 text-sky-400" />,
+    archive: <Archive className="w-4 h-4 text-amber-400" />,
+};
+
+// Kinds the browser can show inside the page
+const PREVIEWABLE: AttachmentKind[] = ['pdf', 'image', 'text'];
+
+// Text previews stop here; the full file is one click away
+const MAX_TEXT_PREVIEW_BYTES = 200 * 1024;
+
+const formatSize = (bytes: number) =>
+    bytes >= 1024 * 1024 ? `${(bytes / (1024 * 1024)).toFixed(1)} MB` : `${Math.max(1, Math.round(bytes / 1024))} KB`;
+
+const URL_PATTERN = /(https?:\/\/[^\s<>"')]+)/g;
+
+// Plain text with its URLs clickable
+const LinkifiedText: React.FC<{ text: string }> = ({ text }) => (
+    <>
+        {text.split(URL_PATTERN).map((part, i) => i % 2 === 1
+            ? <a key={i} href={part} target="_blank" rel="noreferrer" className="text-blue-400 hover:underline">{part}</a>
+            : part
+        )}
+    </>
+);
+
+const AttachmentPreview: React.FC<{ attachment: Attachment; file: File }> = ({ attachment, file }) => {
+    const { t } = useI18n();
+    const [text, setText] = useState<string | null>(null);
+    const [failed, setFailed] = useState<boolean>(false);
+    const imageRef = useRef<HTMLImageElement>(null);
+    const frameRef = useRef<HTMLIFrameElement>(null);
+
+    useEffect(() => {
+        if (attachment.kind === 'text') {
+            let cancelled = false;
+            // The file may have been moved or become unreadable since the folder was linked
+            file.slice(0, MAX_TEXT_PREVIEW_BYTES).text().then(
+                content => { if (!cancelled) setText(content); },
+                () => { if (!cancelled) setFailed(true); }
+            );
+            return () => { cancelled = true; };
+        }
+        // PDFs need their type for the built-in viewer; files from a folder pick usually have it already
+        const url = URL.createObjectURL(attachment.kind === 'pdf' && !file.type ? new Blob([file], { type: 'application/pdf' }) : file);
+        if (imageRef.current) imageRef.current.src = url;
+        if (frameRef.current) frameRef.current.src = url;
+        return () => URL.revokeObjectURL(url);
+    }, [attachment, file]);
+
+    if (attachment.kind === 'text') {
+        return (
+            <pre className="max-h-96 overflow-auto p-3 bg-zinc-950 rounded-md border border-zinc-800 text-xs text-zinc-300 whitespace-pre-wrap break-words">
+                {failed ? t('attachments.readFailed') : text === null ? t('attachments.loading') : <LinkifiedText text={text} />}
+                {file.size > MAX_TEXT_PREVIEW_BYTES && <span className="block mt-2 text-zinc-500">… {t('attachments.truncated')}</span>}
+            </pre>
+        );
+    }
+    if (attachment.kind === 'image') {
+        return <img ref={imageRef} alt={attachment.name} className="max-h-96 mx-auto rounded-md" />;
+    }
+    return <iframe ref={frameRef} title={attachment.name} className="w-full h-[70vh] rounded-md bg-white" />;
+};
+
+// Materials of a lesson or module: previewable ones expand in place, links open in a new tab,
+// everything else is opened or downloaded through the browser
+export const AttachmentList: React.FC<AttachmentListProps> = ({ attachments, files }) => {
+    const { t } = useI18n();
+    const [openKey, setOpenKey] = useState<string | null>(null);
+
+    const openInBrowser = async (attachment: Attachment, file: File) => {
+        if (attachment.kind === 'link') {
+            const target = await readLinkTarget(file).catch(() => null);
+            if (target) window.open(target, '_blank', 'noopener');
+            else alert(t('attachments.linkUnreadable'));
+            return;
+        }
+        const url = URL.createObjectURL(file);
+        window.open(url, '_blank', 'noopener');
+        setTimeout(() => URL.revokeObjectURL(url), 60_000);
+    };
+
+    return (
+        <ul className="space-y-1">
+            {attachments.map(attachment => {
+                const file = files[attachment.fileKey];
+                const canPreview = PREVIEWABLE.includes(attachment.kind);
+                const isOpen = openKey === attachment.fileKey && !!file;
+                return (
+                    <li key={attachment.fileKey}>
+                        <div
+                            className={`group flex items-center gap-3 p-2 rounded-md ${file ? 'hover:bg-zinc-800 cursor-pointer' : 'opacity-50'}`}
+                            onClick={() => {
+                                if (!file) return;
+                                if (canPreview) setOpenKey(isOpen ? null : attachment.fileKey);
+                                else openInBrowser(attachment, file);
+                            }}
+                        >
+                            {KIND_ICONS[attachment.kind]}
+                            <span className="flex-1 min-w-0 truncate text-sm text-zinc-300">{attachment.name}</span>
+                            <span className="text-[10px] text-zinc-500">{file ? formatSize(attachment.size) : t('attachments.missing')}</span>
+                            {file && attachment.kind !== 'link' && (
+                                <>
+                                    <button
+                                        className="opacity-0 group-hover:opacity-100 text-zinc-500 hover:text-zinc-300"
+                                        title={t('attachments.openInNewTab')}
+                                        onClick={(e) => {
+                                            e.stopPropagation();
+                                            openInBrowser(attachment, file);
+                                        }}
+                                    >
+                                        <ExternalLink className="w-3.5 h-3.5" />
+                                    </button>
+                                    <button
+                                        className="opacity-0 group-hover:opacity-100 text-zinc-500 hover:text-zinc-300"
+                                        title={t('attachments.download')}
+                                        onClick={(e) => {
+                                            e.stopPropagation();
+                                            downloadBlob(file, file.name);
+                                        }}
+                                    >
+                                        <Download className="w-3.5 h-3.5" />
+                                    </button>
+                                </>
+                            )}
+                            {isOpen && <X className="w-3.5 h-3.5 text-zinc-500" />}
+                        </div>
+                        {isOpen && (
+                            <div className="mt-1 mb-3">
+                                <AttachmentPreview attachment={attachment} file={file} />
+                            </div>
+                        )}
+                    </li>
+                );
+            })}
+        </ul>
+    );
+};
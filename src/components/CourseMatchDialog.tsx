@@ -0,0 +1,50 @@
+import React from 'react';
+import { FolderOpen, Link2, Plus } from 'lucide-react';
+import { Button } from '@/components/ui';
+import { RichMessage } from '@/components/RichMessage';
+import { useI18n } from '@/hooks/useI18n';
+import type { CourseMatch } from '@/lib/fingerprint';
+
+interface CourseMatchDialogProps {
+    folderName: string;
+    match: CourseMatch;
+    onLink: () => void;
+    onCreate: () => void;
+    onCancel: () => void;
+}
+
+// Shown when a picked folder shares only part of its files with a course already in the library
+export const CourseMatchDialog: React.FC<CourseMatchDialogProps> = ({ folderName, match, onLink, onCreate, onCancel }) => {
+    const { t } = useI18n();
+
+    return (
+        <div className="fixed inset-0 z-50 bg-black/70 flex items-center justify-center p-4">
+            <div className="bg-zinc-900 border border-zinc-800 rounded-xl w-full max-w-lg shadow-2xl">
+                <div className="p-5 border-b border-zinc-800">
+                    <h3 className="flex items-center gap-2 text-lg font-semibold text-white">
+                        <FolderOpen className="w-5 h-5 text-blue-400" /> {t('courseMatch.title')}
+                    </h3>
+                    <p className="text-sm text-zinc-500 mt-2 leading-relaxed">
+                        <RichMessage
+                            id="courseMatch.description"
+                            values={{
+                                folder: <span className="text-zinc-300">{folderName}</span>,
+                                percent: Math.round(match.overlap * 100),
+                                course: <span className="text-zinc-300">{match.course.title}</span>
+                            }}
+                        />
+                    </p>
+                </div>
+                <div className="p-4 flex justify-end gap-3">
+                    <Button variant="ghost" onClick={onCancel}>{t('common.cancel')}</Button>
+                    <Button variant="secondary" onClick={onCreate}>
+                        <Plus className="w-4 h-4" /> {t('courseMatch.create')}
+                    </Button>
+                    <Button onClick={onLink}>
+                        <Link2 className="w-4 h-4" /> {t('courseMatch.link')}
+                    </Button>
+                </div>
+            </div>
+        </div>
+    );
+};
@@ -0,0 +1,17 @@
+import React, { useEffect, useMemo } from 'react';
+import { type Locale, createI18n, detectLocale, isLocale } from '@/lib/i18n';
+import { I18nContext } from '@/hooks/useI18n';
+import { usePersistentState } from '@/hooks/usePersistentState';
+
+// Holds the chosen language (persisted) for everything below it
+export const I18nProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+    const [storedLocale, setLocale] = usePersistentState<Locale>('omniLearn_locale', detectLocale());
+    const locale = isLocale(storedLocale) ? storedLocale : detectLocale();
+    const value = useMemo(() => ({ ...createI18n(locale), setLocale }), [locale, setLocale]);
+
+    useEffect(() => {
+        document.documentElement.lang = locale;
+    }, [locale]);
+
+    return <I18nContext.Provider value={value}>{children}</I18nContext.Provider>;
+};
@@ -0,0 +1,47 @@
+import React from 'react';
+import { Upload } from 'lucide-react';
+import { Button } from '@/components/ui';
+import { useI18n } from '@/hooks/useI18n';
+import type { LibraryBackup } from '@/lib/backup';
+
+interface ImportBackupDialogProps {
+    backup: LibraryBackup;
+    onMerge: () => void;
+    onReplace: () => void;
+    onCancel: () => void;
+}
+
+export const ImportBackupDialog: React.FC<ImportBackupDialogProps> = ({ backup, onMerge, onReplace, onCancel }) => {
+    const { t, locale } = useI18n();
+
+    return (
+        <div className="fixed inset-0 z-50 bg-black/70 flex items-center justify-center p-4">
+            <div className="bg-zinc-900 border border-zinc-800 rounded-xl w-full max-w-lg shadow-2xl">
+                <div className="p-5 border-b border-zinc-800">
+                    <h3 className="flex items-center gap-2 text-lg font-semibold text-white">
+                        <Upload className="w-5 h-5 text-blue-400" /> {t('backup.import')}
+                    </h3>
+                    <p className="text-sm text-zinc-500 mt-2 leading-relaxed">
+                        {backup.exportedAt
+                            ? t('backup.containsExportedAt', { n: backup.courses.length, date: new Date(backup.exportedAt).toLocaleString(locale) })
+                            : t('backup.contains', { n: backup.courses.length })}
+                    </p>
+                    <ul className="mt-3 space-y-1 text-xs text-zinc-400 max-h-40 overflow-y-auto">
+                        {backup.courses.map(course => (
+                            <li key={course.id} className="truncate">• {course.title}</li>
+                        ))}
+                    </ul>
+                    <p className="text-xs text-zinc-500 mt-4">
+                        <span className="text-zinc-300">{t('backup.merge')}</span> {t('backup.mergeHint')}{' '}
+                        <span className="text-zinc-300">{t('backup.replace')}</span> {t('backup.replaceHint')}
+                    </p>
+                </div>
+                <div className="p-4 flex justify-end gap-3">
+                    <Button variant="ghost" onClick={onCancel}>{t('common.cancel')}</Button>
+                    <Button variant="danger" onClick={onReplace}>{t('backup.replace')}</Button>
+                    <Button onClick={onMerge}>{t('backup.merge')}</Button>
+                </div>
+            </div>
+        </div>
+    );
+};
@@ -0,0 +1,20 @@
+import React from 'react';
+import { Video } from 'lucide-react';
+import type { Lesson } from '@/lib/types';
+import { useThumbnail } from '@/hooks/useThumbnail';
+
+interface LessonThumbnailProps {
+    lesson?: Lesson;
+    file?: File;
+    className?: string;
+}
+
+export const LessonThumbnail: React.FC<LessonThumbnailProps> = ({ lesson, file, className = '' }) => {
+    const url = useThumbnail(lesson, file);
+    if (url) return <img src={url} alt="" draggable={false} className={`object-cover bg-zinc-800 ${className}`} />;
+    return (
+        <div className={`bg-zinc-800 flex items-center justify-center ${className}`}>
+            <Video className="w-4 h-4 text-zinc-600" />
+        </div>
+    );
+};
@@ -0,0 +1,121 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Bookmark, Brain, ExternalLink, StickyNote, Video } from 'lucide-react';
+import type { Course } from '@/lib/types';
+import { type ReviewItem, type ReviewItemKind, type ReviewRating, getDueReviews, scheduleReview } from '@/lib/review';
+import { toDayKey } from '@/lib/studyLog';
+import { formatTimestamp } from '@/lib/format';
+import type { MessageKey, Translate } from '@/lib/i18n';
+import { Button, Card } from '@/components/ui';
+import { useI18n } from '@/hooks/useI18n';
+
+interface ReviewQueueProps {
+    courses: Course[];
+    files: Record<string, File>;
+    onRate: (item: ReviewItem, rating: ReviewRating) => void;
+    onOpen: (item: ReviewItem) => void;
+}
+
+const RATINGS: { rating: ReviewRating; label: MessageKey; className: string }[] = [
+    { rating: 'again', label: 'review.again', className: 'text-red-400 border-red-500/30 hover:bg-red-500/10' },
+    { rating: 'hard', label: 'review.hard', className: 'text-amber-400 border-amber-500/30 hover:bg-amber-500/10' },
+    { rating: 'good', label: 'review.good', className: 'text-green-400 border-green-500/30 hover:bg-green-500/10' },
+    { rating: 'easy', label: 'review.easy', className: 'text-blue-400 border-blue-500/30 hover:bg-blue-500/10' },
+];
+
+const KIND_LABELS: Record<ReviewItemKind, { icon: React.ReactNode; label: MessageKey }> = {
+    lesson: { icon: <Video className="w-3.5 h-3.5" />, label: 'review.kind.lesson' },
+    note: { icon: <StickyNote className="w-3.5 h-3.5" />, label: 'review.kind.note' },
+    bookmark: { icon: <Bookmark className="w-3.5 h-3.5" />, label: 'review.kind.bookmark' },
+};
+
+// Clips start a little before the flagged moment and stop on their own
+const CLIP_LEAD_SECONDS = 5;
+const CLIP_LENGTH_SECONDS = 30;
+
+const formatInterval = (t: Translate, days: number) =>
+    days < 30 ? t('review.intervalDays', { n: days }) : t('review.intervalMonths', { n: Math.round(days / 30) });
+
+// Short stretch of a lesson around a note or bookmark
+const ClipPlayer: React.FC<{ file: File; time: number }> = ({ file, time }) => {
+    const videoRef = useRef<HTMLVideoElement>(null);
+    const start = Math.max(0, time - CLIP_LEAD_SECONDS);
+
+    useEffect(() => {
+        const url = URL.createObjectURL(file);
+        if (videoRef.current) videoRef.current.src = url;
+        return () => URL.revokeObjectURL(url);
+    }, [file]);
+
+    return (
+        <video
+            ref={videoRef}
+            controls
+            className="w-full max-h-64 rounded-md bg-black"
+            onLoadedMetadata={(e) => { e.currentTarget.currentTime = start; }}
+            onTimeUpdate={(e) => {
+                if (e.currentTarget.currentTime >= start + CLIP_LENGTH_SECONDS) e.currentTarget.pause();
+            }}
+        />
+    );
+};
+
+// "Revisar hoje": one item at a time, replayed from its clip (or shown as text), then rated
+export const ReviewQueue: React.FC<ReviewQueueProps> = ({ courses, files, onRate, onOpen }) => {
+    const { t } = useI18n();
+    const [today] = useState(() => toDayKey(new Date()));
+    const items = getDueReviews(courses, today);
+    const item = items[0];
+    const file = item && files[item.lesson.fileKey];
+
+    return (
+        <Card className="p-5">
+            <div className="flex items-center justify-between mb-4">
+                <h3 className="flex items-center gap-2 text-sm font-semibold text-zinc-200">
+                    <Brain className="w-4 h-4 text-purple-400" /> {t('review.title')}
+                </h3>
+                <span className="text-xs text-zinc-500">{t('review.itemCount', { n: items.length })}</span>
+            </div>
+
+            {!item ? (
+                <p className="text-sm text-zinc-500">{t('review.empty')}</p>
+            ) : (
+                <div className="space-y-4">
+                    <div>
+                        <div className="flex items-center gap-2 text-[11px] uppercase tracking-wide text-zinc-500">
+                            {KIND_LABELS[item.kind].icon}
+                            {t(KIND_LABELS[item.kind].label)}
+                            {item.time !== undefined && <span className="font-mono normal-case text-blue-400">{formatTimestamp(item.time)}</span>}
+                        </div>
+                        <p className="mt-1 text-sm text-zinc-200">{item.lesson.title}</p>
+                        <p className="text-xs text-zinc-500">{item.course.title}</p>
+                    </div>
+
+                    {item.text && <p className="p-3 bg-zinc-950 border border-zinc-800 rounded-md text-sm text-zinc-300 whitespace-pre-wrap">{item.text}</p>}
+                    {item.kind === 'lesson' && item.lesson.notes && (
+                        <p className="p-3 bg-zinc-950 border border-zinc-800 rounded-md text-sm text-zinc-400 whitespace-pre-wrap line-clamp-6">{item.lesson.notes}</p>
+                    )}
+                    {item.time !== undefined && (file
+                        ? <ClipPlayer key={item.key} file={file} time={item.time} />
+                        : <p className="text-xs text-zinc-500">{t('review.folderNeeded')}</p>
+                    )}
+
+                    <div className="flex flex-wrap items-center gap-2">
+                        {RATINGS.map(({ rating, label, className }) => (
+                            <button
+                                key={rating}
+                                className={`flex-1 min-w-[72px] px-3 py-2 rounded-md border text-xs font-medium transition-colors ${className}`}
+                                onClick={() => onRate(item, rating)}
+                            >
+                                {t(label)}
+                                <span className="block text-[10px] font-normal text-zinc-500">{formatInterval(t, scheduleReview(item.schedule, rating, today).interval)}</span>
+                            </button>
+                        ))}
+                    </div>
+                    <Button variant="ghost" className="!px-2 !py-1 text-xs" onClick={() => onOpen(item)}>
+                        <ExternalLink className="w-3.5 h-3.5" /> {t(item.kind === 'lesson' ? 'review.openLesson' : 'review.openAtTime')}
+                    </Button>
+                </div>
+            )}
+        </Card>
+    );
+};
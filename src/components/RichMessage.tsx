@@ -0,0 +1,23 @@
+import React from 'react';
+import type { MessageKey } from '@/lib/i18n';
+import { useI18n } from '@/hooks/useI18n';
+
+interface RichMessageProps {
+    id: MessageKey;
+    values: Record<string, React.ReactNode>; // Elements for the placeholders, e.g. highlighted names
+    n?: number; // Count for plural messages
+}
+
+// Translated message with elements in its placeholders. Placeholders without a string param are
+// left in place by the translator, so they can be split out and replaced here.
+export const RichMessage: React.FC<RichMessageProps> = ({ id, values, n }) => {
+    const { t } = useI18n();
+    return (
+        <>
+            {t(id, n === undefined ? {} : { n }).split(/(\{\w+\})/).map((part, i) => {
+                const name = /^\{(\w+)\}$/.exec(part)?.[1];
+                return <React.Fragment key={i}>{name && name in values ? values[name] : part}</React.Fragment>;
+            })}
+        </>
+    );
+};
@@ -0,0 +1,142 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Captions, FolderOpen, Monitor, Search, StickyNote, Video } from 'lucide-react';
+import type { Course } from '@/lib/types';
+import { type SearchHit, type SearchHitKind, searchLibrary } from '@/lib/search';
+import { type SubtitleCue, findSidecarSubtitles, loadSubtitleCues, parseVttCues } from '@/lib/subtitles';
+import { formatTimestamp } from '@/lib/format';
+import { getCourseLessons } from '@/lib/courseTree';
+import { getModuleTitle } from '@/lib/courseStructure';
+import { useI18n } from '@/hooks/useI18n';
+
+interface SearchDialogProps {
+    courses: Course[];
+    activeFiles: Record<string, File>;
+    onSelect: (hit: SearchHit) => void;
+    onClose: () => void;
+}
+
+const KIND_ICONS: Record<SearchHitKind, React.ReactNode> = {
+    course: <Monitor className="w-4 h-4" />,
+    module: <FolderOpen className="w-4 h-4" />,
+    lesson: <Video className="w-4 h-4" />,
+    note: <StickyNote className="w-4 h-4" />,
+    subtitle: <Captions className="w-4 h-4" />,
+};
+
+// Cues of every subtitle reachable for each lesson: loaded by hand or sidecars in the linked folder
+async function buildSubtitleIndex(courses: Course[], activeFiles: Record<string, File>) {
+    const fileKeys = Object.keys(activeFiles);
+    const index = new Map<string, SubtitleCue[]>();
+    for (const lesson of courses.flatMap(getCourseLessons)) {
+        const cues = (lesson.subtitles ?? []).flatMap(sub => parseVttCues(sub.vtt));
+        for (const sidecar of findSidecarSubtitles(lesson.fileKey, fileKeys)) {
+            cues.push(...await loadSubtitleCues(activeFiles[sidecar.fileKey]));
+        }
+        if (cues.length > 0) index.set(lesson.id, cues);
+    }
+    return index;
+}
+
+export const SearchDialog: React.FC<SearchDialogProps> = ({ courses, activeFiles, onSelect, onClose }) => {
+    const { t } = useI18n();
+    const [query, setQuery] = useState<string>('');
+    const [selectedIndex, setSelectedIndex] = useState<number>(0);
+    const [subtitleCues, setSubtitleCues] = useState<Map<string, SubtitleCue[]>>(new Map());
+
+    useEffect(() => {
+        let cancelled = false;
+        buildSubtitleIndex(courses, activeFiles).then(index => {
+            if (!cancelled) setSubtitleCues(index);
+        });
+        return () => { cancelled = true; };
+    }, [courses, activeFiles]);
+
+    const hits = useMemo(() => searchLibrary(courses, query, subtitleCues, t), [courses, query, subtitleCues, t]);
+
+    // Grouped by course, then module; hits keep their position in the flat list for keyboard navigation
+    const groups = useMemo(() => {
+        const byCourse = new Map<string, { course: Course; modules: Map<string, { title: string; hits: { hit: SearchHit; index: number }[] }> }>();
+        hits.forEach((hit, index) => {
+            if (!byCourse.has(hit.course.id)) byCourse.set(hit.course.id, { course: hit.course, modules: new Map() });
+            const modules = byCourse.get(hit.course.id)!.modules;
+            const key = hit.module?.id ?? '';
+            if (!modules.has(key)) modules.set(key, { title: hit.module ? getModuleTitle(hit.module, t) : '', hits: [] });
+            modules.get(key)!.hits.push({ hit, index });
+        });
+        return Array.from(byCourse.values());
+    }, [hits, t]);
+
+    const handleKeyDown = (event: React.KeyboardEvent) => {
+        if (event.key === 'Escape') {
+            onClose();
+        } else if (event.key === 'ArrowDown') {
+            event.preventDefault();
+            setSelectedIndex(i => Math.min(i + 1, hits.length - 1));
+        } else if (event.key === 'ArrowUp') {
+            event.preventDefault();
+            setSelectedIndex(i => Math.max(i - 1, 0));
+        } else if (event.key === 'Enter' && hits[selectedIndex]) {
+            onSelect(hits[selectedIndex]);
+        }
+    };
+
+    return (
+        <div className="fixed inset-0 z-50 bg-black/70 flex items-start justify-center p-4 pt-[12vh]" onClick={onClose}>
+            <div
+                className="bg-zinc-900 border border-zinc-800 rounded-xl w-full max-w-2xl max-h-[70vh] flex flex-col shadow-2xl"
+                onClick={(e) => e.stopPropagation()}
+            >
+                <div className="flex items-center gap-3 p-4 border-b border-zinc-800">
+                    <Search className="w-5 h-5 text-zinc-500" />
+                    <input
+                        autoFocus
+                        className="flex-1 bg-transparent text-white placeholder-zinc-500 focus:outline-none"
+                        placeholder={t('search.placeholder')}
+                        value={query}
+                        onChange={(e) => {
+                            setQuery(e.target.value);
+                            setSelectedIndex(0);
+                        }}
+                        onKeyDown={handleKeyDown}
+                    />
+                    <kbd className="text-[10px] text-zinc-500 border border-zinc-700 rounded px-1.5 py-0.5">Esc</kbd>
+                </div>
+
+                <div className="flex-1 overflow-y-auto p-2">
+                    {query.trim().length >= 2 && hits.length === 0 && (
+                        <p className="p-6 text-center text-sm text-zinc-500">{t('search.noResults', { query })}</p>
+                    )}
+                    {groups.map(({ course, modules }) => (
+                        <div key={course.id} className="mb-3">
+                            <h4 className="px-2 py-1 text-xs font-semibold uppercase tracking-wider text-zinc-400">{course.title}</h4>
+                            {Array.from(modules.entries()).map(([moduleKey, group]) => (
+                                <div key={moduleKey}>
+                                    {group.title && <p className="px-2 pt-1 text-[11px] text-zinc-600">{group.title}</p>}
+                                    {group.hits.map(({ hit, index }) => (
+                                        <button
+                                            key={index}
+                                            className={`w-full flex items-start gap-3 p-2 rounded-md text-left text-sm ${index === selectedIndex ? 'bg-blue-600/15 text-white' : 'text-zinc-300 hover:bg-zinc-800'}`}
+                                            onMouseEnter={() => setSelectedIndex(index)}
+                                            onClick={() => onSelect(hit)}
+                                        >
+                                            <span className="mt-0.5 text-zinc-500">{KIND_ICONS[hit.kind]}</span>
+                                            <span className="flex-1 min-w-0">
+                                                {hit.lesson && hit.kind !== 'lesson' && (
+                                                    <span className="block text-xs text-zinc-500 truncate">{hit.lesson.title}</span>
+                                                )}
+                                                <span className="block break-words">{hit.text}</span>
+                                            </span>
+                                            {hit.time !== undefined && (
+                                                <span className="text-xs font-mono text-blue-400">{formatTimestamp(hit.time)}</span>
+                                            )}
+                                        </button>
+                                    ))}
+                                </div>
+                            ))}
+                        </div>
+                    ))}
+                </div>
+            </div>
+        </div>
+    );
+};
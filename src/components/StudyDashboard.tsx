@@ -0,0 +1,186 @@
+import React, { useMemo, useState } from 'react';
+import { CalendarCheck, Flame, Target, Trophy } from 'lucide-react';
+import type { Course } from '@/lib/types';
+import { type StudyEntry, addDays, dayKeyToDate, estimateFinishDate, getCourseTotals, getDailyTotals, getStreaks, toDayKey } from '@/lib/studyLog';
+import { getCourseLessons } from '@/lib/courseTree';
+import { getLessonStats } from '@/lib/progress';
+import { Card, ProgressBar } from '@/components/ui';
+import { RichMessage } from '@/components/RichMessage';
+import { useI18n } from '@/hooks/useI18n';
+
+interface StudyDashboardProps {
+    courses: Course[];
+    entries: StudyEntry[];
+    dailyGoalMinutes: number;
+    onDailyGoalChange: (minutes: number) => void;
+}
+
+const HEATMAP_WEEKS = 12;
+const MIN_GOAL_MINUTES = 5;
+const MAX_GOAL_MINUTES = 600;
+
+// Shade of a heatmap cell by how much of the daily goal was studied that day
+const heatColor = (seconds: number, goalSeconds: number) => {
+    if (seconds <= 0) return 'bg-zinc-800';
+    const ratio = seconds / Math.max(goalSeconds, 1);
+    if (ratio >= 1) return 'bg-blue-500';
+    if (ratio >= 0.5) return 'bg-blue-700';
+    return 'bg-blue-900';
+};
+
+// Library overview of the study log: weekly heatmap, daily goal, streaks and pace per course
+export const StudyDashboard: React.FC<StudyDashboardProps> = ({ courses, entries, dailyGoalMinutes, onDailyGoalChange }) => {
+    const { t, formatDate, formatDuration } = useI18n();
+    // Fixed for the lifetime of the screen; reopening the library picks up a new day
+    const [today] = useState(() => toDayKey(new Date()));
+    const goalSeconds = dailyGoalMinutes * 60;
+    // Text being typed in the goal field; committed on blur or Enter, so it can be cleared while editing
+    const [goalDraft, setGoalDraft] = useState<string | null>(null);
+
+    const dailyTotals = useMemo(() => getDailyTotals(entries), [entries]);
+    const courseTotals = useMemo(() => getCourseTotals(entries), [entries]);
+    const streaks = getStreaks(dailyTotals, goalSeconds, today);
+    const todaySeconds = dailyTotals.get(today) ?? 0;
+
+    // Columns are weeks (Sunday first), ending with the current one
+    const firstDay = addDays(today, -(dayKeyToDate(today).getDay() + (HEATMAP_WEEKS - 1) * 7));
+    const weeks = Array.from({ length: HEATMAP_WEEKS }, (_, w) =>
+        Array.from({ length: 7 }, (_, d) => addDays(firstDay, w * 7 + d))
+    );
+
+    const weekStart = addDays(today, -6);
+    const completedThisWeek = courses
+        .flatMap(getCourseLessons)
+        .filter(l => l.completedAt && toDayKey(new Date(l.completedAt)) >= weekStart)
+        .length;
+
+    const courseRows = courses.map(course => {
+        const stats = getLessonStats(getCourseLessons(course), 'duration');
+        const weekSeconds = entries
+            .filter(e => e.courseId === course.id && e.day >= weekStart)
+            .reduce((sum, e) => sum + e.seconds, 0);
+        return {
+            course,
+            stats,
+            totalSeconds: courseTotals.get(course.id) ?? 0,
+            weekSeconds,
+            finishDate: estimateFinishDate(entries, course.id, stats.remainingDuration, today)
+        };
+    }).filter(row => row.totalSeconds > 0);
+
+    const commitGoalDraft = () => {
+        if (goalDraft === null) return;
+        const minutes = Math.round(Number(goalDraft));
+        if (goalDraft.trim() && Number.isFinite(minutes)) {
+            onDailyGoalChange(Math.min(MAX_GOAL_MINUTES, Math.max(MIN_GOAL_MINUTES, minutes)));
+        }
+        setGoalDraft(null);
+    };
+
+    const goalInput = (
+        <input
+            type="number"
+            min={MIN_GOAL_MINUTES}
+            max={MAX_GOAL_MINUTES}
+            step={5}
+            value={goalDraft ?? dailyGoalMinutes}
+            onChange={(e) => setGoalDraft(e.target.value)}
+            onBlur={commitGoalDraft}
+            onKeyDown={(e) => {
+                if (e.key === 'Enter') commitGoalDraft();
+            }}
+            className="w-14 mx-1 px-1.5 py-0.5 bg-zinc-950 border border-zinc-800 rounded text-zinc-200 text-right focus:outline-none focus:border-blue-500"
+            title={t('dashboard.goalInput')}
+        />
+    );
+
+    return (
+        <Card className="p-5 space-y-6">
+            <div className="flex flex-wrap items-start gap-8">
+                <div>
+                    <h3 className="text-sm font-semibold text-zinc-200 mb-3">{t('dashboard.activity')}</h3>
+                    <div className="flex gap-1">
+                        <div className="flex flex-col gap-1 mr-1">
+                            {weeks[0].map(day => (
+                                <span key={day} className="h-3 text-[9px] leading-3 text-zinc-600">{formatDate(dayKeyToDate(day), { weekday: 'narrow' })}</span>
+                            ))}
+                        </div>
+                        {weeks.map(week => (
+                            <div key={week[0]} className="flex flex-col gap-1">
+                                {week.map(day => {
+                                    const seconds = dailyTotals.get(day) ?? 0;
+                                    return day > today ? (
+                                        <span key={day} className="w-3 h-3" />
+                                    ) : (
+                                        <span
+                                            key={day}
+                                            className={`w-3 h-3 rounded-sm ${heatColor(seconds, goalSeconds)} ${day === today ? 'ring-1 ring-zinc-400' : ''}`}
+                                            title={`${formatDate(dayKeyToDate(day))}: ${seconds > 0 ? formatDuration(seconds) : t('dashboard.noStudy')}`}
+                                        />
+                                    );
+                                })}
+                            </div>
+                        ))}
+                    </div>
+                </div>
+
+                <div className="flex-1 min-w-[220px] space-y-4">
+                    <div>
+                        <div className="flex items-center justify-between text-sm mb-2">
+                            <span className="flex items-center gap-2 text-zinc-300">
+                                <Target className="w-4 h-4 text-blue-400" /> {t('dashboard.todayGoal')}
+                            </span>
+                            <span className="text-xs text-zinc-500">
+                                <RichMessage id="dashboard.goalProgress" values={{ studied: formatDuration(todaySeconds), goal: goalInput }} />
+                            </span>
+                        </div>
+                        <ProgressBar progress={Math.min(100, Math.round((todaySeconds / Math.max(goalSeconds, 1)) * 100))} />
+                    </div>
+                    <div className="grid grid-cols-3 gap-3 text-center">
+                        <div className="p-3 rounded-lg bg-zinc-950 border border-zinc-800">
+                            <Flame className={`w-4 h-4 mx-auto mb-1 ${streaks.current > 0 ? 'text-orange-400' : 'text-zinc-600'}`} />
+                            <div className="text-lg font-semibold text-zinc-200">{streaks.current}</div>
+                            <div className="text-[10px] text-zinc-500">{t('dashboard.currentStreak', { n: streaks.current })}</div>
+                        </div>
+                        <div className="p-3 rounded-lg bg-zinc-950 border border-zinc-800">
+                            <Trophy className="w-4 h-4 mx-auto mb-1 text-amber-400" />
+                            <div className="text-lg font-semibold text-zinc-200">{streaks.longest}</div>
+                            <div className="text-[10px] text-zinc-500">{t('dashboard.longestStreak')}</div>
+                        </div>
+                        <div className="p-3 rounded-lg bg-zinc-950 border border-zinc-800">
+                            <CalendarCheck className="w-4 h-4 mx-auto mb-1 text-green-400" />
+                            <div className="text-lg font-semibold text-zinc-200">{completedThisWeek}</div>
+                            <div className="text-[10px] text-zinc-500">{t('dashboard.completedThisWeek')}</div>
+                        </div>
+                    </div>
+                </div>
+            </div>
+
+            {courseRows.length > 0 && (
+                <div>
+                    <h3 className="text-sm font-semibold text-zinc-200 mb-2">{t('dashboard.timePerCourse')}</h3>
+                    <ul className="divide-y divide-zinc-800">
+                        {courseRows.map(({ course, stats, totalSeconds, weekSeconds, finishDate }) => (
+                            <li key={course.id} className="flex flex-wrap items-center gap-x-4 gap-y-1 py-2 text-xs">
+                                <span className="flex-1 min-w-[160px] truncate text-sm text-zinc-300">{course.title}</span>
+                                <span className="text-zinc-500">
+                                    <RichMessage id="dashboard.total" values={{ duration: <span className="text-zinc-300">{formatDuration(totalSeconds)}</span> }} />
+                                </span>
+                                <span className="text-zinc-500">
+                                    <RichMessage id="dashboard.lastWeek" values={{ duration: <span className="text-zinc-300">{formatDuration(weekSeconds)}</span> }} />
+                                </span>
+                                <span className="text-zinc-500 w-44 text-right">
+                                    {stats.totalDuration > 0 && stats.remainingDuration === 0
+                                        ? t('dashboard.finished')
+                                        : finishDate
+                                            ? <RichMessage id="dashboard.finishEstimate" values={{ date: <span className="text-zinc-300">{formatDate(finishDate)}</span> }} />
+                                            : t('dashboard.noRecentPace')}
+                                </span>
+                            </li>
+                        ))}
+                    </ul>
+                </div>
+            )}
+        </Card>
+    );
+};
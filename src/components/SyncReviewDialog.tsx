@@ -0,0 +1,81 @@
+import React from 'react';
+import { FilePlus, FileX, Link2, RefreshCw } from 'lucide-react';
+import { Button } from '@/components/ui';
+import { RichMessage } from '@/components/RichMessage';
+import { useI18n } from '@/hooks/useI18n';
+import type { Reconciliation } from '@/lib/reconcile';
+
+interface SyncReviewDialogProps {
+    courseTitle: string;
+    reconciliation: Reconciliation;
+    onApply: () => void;
+    onCancel: () => void;
+}
+
+const Section: React.FC<{ icon: React.ReactNode; title: string; count: number; children: React.ReactNode }> = ({ icon, title, count, children }) => {
+    if (count === 0) return null;
+    return (
+        <div>
+            <h4 className="flex items-center gap-2 text-sm font-semibold text-zinc-300 mb-2">
+                {icon} {title} <span className="text-zinc-500 font-normal">({count})</span>
+            </h4>
+            <ul className="space-y-1 text-xs">{children}</ul>
+        </div>
+    );
+};
+
+// Lists what re-syncing a course folder would change, so nothing is applied behind the user's back
+export const SyncReviewDialog: React.FC<SyncReviewDialogProps> = ({ courseTitle, reconciliation, onApply, onCancel }) => {
+    const { t } = useI18n();
+    const { added, removed, relinked } = reconciliation;
+
+    return (
+        <div className="fixed inset-0 z-50 bg-black/70 flex items-center justify-center p-4">
+            <div className="bg-zinc-900 border border-zinc-800 rounded-xl w-full max-w-2xl max-h-[85vh] flex flex-col shadow-2xl">
+                <div className="p-5 border-b border-zinc-800">
+                    <h3 className="flex items-center gap-2 text-lg font-semibold text-white">
+                        <RefreshCw className="w-5 h-5 text-blue-400" /> {t('sync.title')}
+                    </h3>
+                    <p className="text-sm text-zinc-500 mt-1">
+                        <RichMessage id="sync.description" values={{ course: <span className="text-zinc-300">{courseTitle}</span> }} />
+                    </p>
+                </div>
+
+                <div className="flex-1 overflow-y-auto p-5 space-y-5">
+                    <Section icon={<FilePlus className="w-4 h-4 text-green-500" />} title={t('sync.added')} count={added.length}>
+                        {added.map(({ lesson, modulePath }) => (
+                            <li key={lesson.id} className="flex justify-between gap-4 p-2 bg-zinc-950 rounded border border-zinc-800">
+                                <span className="text-zinc-300 truncate">{lesson.title}</span>
+                                <span className="text-zinc-500 flex-shrink-0">{modulePath.join(' / ')}</span>
+                            </li>
+                        ))}
+                    </Section>
+
+                    <Section icon={<Link2 className="w-4 h-4 text-blue-400" />} title={t('sync.relinked')} count={relinked.length}>
+                        {relinked.map(item => (
+                            <li key={item.lessonId} className="p-2 bg-zinc-950 rounded border border-zinc-800">
+                                <p className="text-zinc-300 truncate">{item.title}</p>
+                                <p className="text-zinc-500 font-mono truncate">{item.fromKey} → {item.file.relativePath}</p>
+                            </li>
+                        ))}
+                    </Section>
+
+                    <Section icon={<FileX className="w-4 h-4 text-red-400" />} title={t('sync.removed')} count={removed.length}>
+                        {removed.map(lesson => (
+                            <li key={lesson.id} className="flex justify-between gap-4 p-2 bg-zinc-950 rounded border border-zinc-800">
+                                <span className="text-zinc-300 truncate">{lesson.title}</span>
+                                <span className="text-zinc-500 font-mono truncate">{lesson.originalName}</span>
+                            </li>
+                        ))}
+                        <li className="text-zinc-500 pt-1">{t('sync.removedHint')}</li>
+                    </Section>
+                </div>
+
+                <div className="p-4 border-t border-zinc-800 flex justify-end gap-3">
+                    <Button variant="secondary" onClick={onCancel}>{t('sync.keep')}</Button>
+                    <Button onClick={onApply}>{t('sync.apply')}</Button>
+                </div>
+            </div>
+        </div>
+    );
+};
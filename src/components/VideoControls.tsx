@@ -0,0 +1,362 @@
+import React, { useEffect, useRef, useState } from 'react';
+import {
+    Bookmark,
+    CheckCircle,
+    Maximize,
+    Minimize,
+    Pause,
+    Play,
+    Repeat,
+    SkipBack,
+    SkipForward,
+    StepBack,
+    StepForward,
+    Volume2,
+    VolumeX
+} from 'lucide-react';
+import { formatTimestamp } from '@/lib/format';
+import { createFramePreviewer } from '@/lib/thumbnails';
+import { useI18n } from '@/hooks/useI18n';
+
+const PLAYBACK_RATES = [0.5, 0.75, 1, 1.25, 1.5, 1.75, 2, 2.5, 3];
+
+// Browsers don't expose the frame rate; 30 fps is right for most screen-recorded lessons
+const FRAME_DURATION = 1 / 30;
+
+// Bookmarks saved on the lesson and chapters read from a sidecar file
+export interface TimelineMarker {
+    id: string;
+    time: number;
+    label: string;
+    kind: 'bookmark' | 'chapter';
+}
+
+interface VideoControlsProps {
+    videoRef: React.RefObject<HTMLVideoElement | null>;
+    containerRef: React.RefObject<HTMLDivElement | null>;
+    file?: File; // Source of the seek bar hover previews
+    playbackRate: number;
+    isCompleted: boolean;
+    markers: TimelineMarker[];
+    onAddBookmark: (time: number) => void;
+    onPlaybackRateChange: (rate: number) => void;
+    onToggleComplete: () => void;
+    onPrevious?: () => void;
+    onNext?: () => void;
+}
+
+interface PlaybackState {
+    isPaused: boolean;
+    currentTime: number;
+    duration: number;
+    volume: number;
+    isMuted: boolean;
+}
+
+// A-B repeat: start is set first, end once the user marks it
+interface LoopRange {
+    start: number;
+    end?: number;
+}
+
+const ControlButton: React.FC<React.ButtonHTMLAttributes<HTMLButtonElement> & { isActive?: boolean }> = ({ isActive, className = '', ...props }) => (
+    <button
+        className={`p-1.5 rounded transition-colors disabled:opacity-40 disabled:pointer-events-none ${isActive ? 'text-blue-400' : 'text-zinc-300 hover:text-white'} ${className}`}
+        {...props}
+    />
+);
+
+// Custom control layer over a <video> without native controls. Mounted once per video element
+// (keyed by its URL), so listeners are attached to the element that is actually playing.
+export const VideoControls: React.FC<VideoControlsProps> = ({
+    videoRef,
+    containerRef,
+    file,
+    playbackRate,
+    isCompleted,
+    markers,
+    onAddBookmark,
+    onPlaybackRateChange,
+    onToggleComplete,
+    onPrevious,
+    onNext
+}) => {
+    const { t } = useI18n();
+    const [state, setState] = useState<PlaybackState>({ isPaused: true, currentTime: 0, duration: 0, volume: 1, isMuted: false });
+    const [loop, setLoop] = useState<LoopRange | null>(null);
+    const [isFullscreen, setFullscreen] = useState<boolean>(false);
+    const [hover, setHover] = useState<{ time: number; ratio: number; frame: string | null } | null>(null);
+    const previewerRef = useRef<ReturnType<typeof createFramePreviewer> | null>(null);
+
+    // The previewer decodes the file a second time, so it is only created on the first hover
+    useEffect(() => () => previewerRef.current?.dispose(), []);
+
+    useEffect(() => {
+        const video = videoRef.current;
+        if (!video) return;
+        const sync = () => setState({
+            isPaused: video.paused,
+            currentTime: video.currentTime,
+            duration: Number.isFinite(video.duration) ? video.duration : 0,
+            volume: video.volume,
+            isMuted: video.muted
+        });
+        const events = ['play', 'pause', 'timeupdate', 'durationchange', 'loadedmetadata', 'volumechange', 'seeked'];
+        events.forEach(name => video.addEventListener(name, sync));
+        return () => events.forEach(name => video.removeEventListener(name, sync));
+    }, [videoRef]);
+
+    // Loading a source resets playbackRate to defaultPlaybackRate, so both are set
+    useEffect(() => {
+        const video = videoRef.current;
+        if (!video) return;
+        video.defaultPlaybackRate = playbackRate;
+        video.playbackRate = playbackRate;
+    }, [videoRef, playbackRate]);
+
+    useEffect(() => {
+        const video = videoRef.current;
+        if (!video || loop?.end === undefined) return;
+        const { start, end } = loop;
+        const enforceLoop = () => {
+            if (video.currentTime >= end || video.currentTime < start - 1) video.currentTime = start;
+        };
+        video.addEventListener('timeupdate', enforceLoop);
+        return () => video.removeEventListener('timeupdate', enforceLoop);
+    }, [videoRef, loop]);
+
+    useEffect(() => {
+        const handleChange = () => setFullscreen(document.fullscreenElement === containerRef.current);
+        document.addEventListener('fullscreenchange', handleChange);
+        return () => document.removeEventListener('fullscreenchange', handleChange);
+    }, [containerRef]);
+
+    // --- Actions ---
+
+    const togglePlay = () => {
+        const video = videoRef.current;
+        if (!video) return;
+        if (video.paused) video.play().catch(() => undefined); // Rejected when interrupted or blocked by the browser
+        else video.pause();
+    };
+
+    const seekBy = (seconds: number) => {
+        const video = videoRef.current;
+        if (!video) return;
+        video.currentTime = Math.min(Math.max(0, video.currentTime + seconds), video.duration || 0);
+    };
+
+    // Stepping only makes sense on a still frame
+    const stepFrame = (direction: -1 | 1) => {
+        videoRef.current?.pause();
+        seekBy(direction * FRAME_DURATION);
+    };
+
+    const toggleMute = () => {
+        const video = videoRef.current;
+        if (video) video.muted = !video.muted;
+    };
+
+    const toggleFullscreen = () => {
+        if (document.fullscreenElement) document.exitFullscreen().catch(() => undefined);
+        else containerRef.current?.requestFullscreen().catch(() => undefined);
+    };
+
+    const changeRate = (step: -1 | 1) => {
+        const index = PLAYBACK_RATES.indexOf(playbackRate);
+        const next = PLAYBACK_RATES[(index < 0 ? PLAYBACK_RATES.indexOf(1) : index) + step];
+        if (next !== undefined) onPlaybackRateChange(next);
+    };
+
+    // Cycles through: mark A → mark B → off
+    const cycleLoop = () => {
+        const time = videoRef.current?.currentTime ?? 0;
+        if (!loop) setLoop({ start: time });
+        else if (loop.end === undefined && time > loop.start) setLoop({ ...loop, end: time });
+        else setLoop(null);
+    };
+
+    const pointerRatio = (event: React.PointerEvent<HTMLDivElement>) => {
+        const rect = event.currentTarget.getBoundingClientRect();
+        return Math.min(Math.max((event.clientX - rect.left) / rect.width, 0), 1);
+    };
+
+    const seekToPointer = (event: React.PointerEvent<HTMLDivElement>) => {
+        const video = videoRef.current;
+        if (!video || !state.duration) return;
+        video.currentTime = pointerRatio(event) * state.duration;
+    };
+
+    const previewAtPointer = (event: React.PointerEvent<HTMLDivElement>) => {
+        if (!state.duration) return;
+        const ratio = pointerRatio(event);
+        const time = ratio * state.duration;
+        setHover(prev => ({ time, ratio, frame: prev?.frame ?? null }));
+        if (!file) return;
+        previewerRef.current ??= createFramePreviewer(file);
+        previewerRef.current.frameAt(time).then(frame => {
+            if (frame) setHover(prev => prev && { ...prev, frame });
+        });
+    };
+
+    // --- Keyboard shortcuts ---
+
+    useEffect(() => {
+        const handleKeyDown = (event: KeyboardEvent) => {
+            const target = event.target as HTMLElement;
+            const isTyping = target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName);
+            if (isTyping || event.ctrlKey || event.metaKey || event.altKey) return;
+
+            const actions: Record<string, () => void> = {
+                ' ': togglePlay,
+                k: togglePlay,
+                j: () => seekBy(-10),
+                l: () => seekBy(10),
+                ArrowLeft: () => seekBy(-5),
+                ArrowRight: () => seekBy(5),
+                ',': () => stepFrame(-1),
+                '.': () => stepFrame(1),
+                '<': () => changeRate(-1),
+                '>': () => changeRate(1),
+                n: () => onNext?.(),
+                p: () => onPrevious?.(),
+                f: toggleFullscreen,
+                m: onToggleComplete,
+                b: () => onAddBookmark(videoRef.current?.currentTime ?? 0)
+            };
+            const action = actions[event.key.length === 1 ? event.key.toLowerCase() : event.key];
+            if (!action) return;
+            event.preventDefault();
+            action();
+        };
+        window.addEventListener('keydown', handleKeyDown);
+        return () => window.removeEventListener('keydown', handleKeyDown);
+    });
+
+    const progress = state.duration > 0 ? (state.currentTime / state.duration) * 100 : 0;
+    const toPercent = (time: number) => state.duration > 0 ? `${(time / state.duration) * 100}%` : '0%';
+    const currentChapter = markers.filter(m => m.kind === 'chapter' && m.time <= state.currentTime).pop();
+
+    return (
+        <div className={`absolute inset-x-0 bottom-0 z-10 bg-gradient-to-t from-black/90 to-transparent px-4 pt-8 pb-3 transition-opacity ${state.isPaused ? 'opacity-100' : 'opacity-0 group-hover/player:opacity-100 focus-within:opacity-100'}`}>
+            <div
+                className="relative h-1.5 mb-3 bg-white/20 rounded-full cursor-pointer"
+                onPointerDown={(e) => {
+                    e.currentTarget.setPointerCapture(e.pointerId);
+                    seekToPointer(e);
+                }}
+                onPointerMove={(e) => {
+                    if (e.buttons === 1) seekToPointer(e);
+                    previewAtPointer(e);
+                }}
+                onPointerLeave={() => setHover(null)}
+            >
+                {hover && (
+                    <div
+                        className="absolute bottom-4 -translate-x-1/2 pointer-events-none flex flex-col items-center gap-1"
+                        style={{ left: `clamp(84px, ${hover.ratio * 100}%, calc(100% - 84px))` }}
+                    >
+                        {hover.frame && <img src={hover.frame} alt="" className="w-40 rounded border border-zinc-700 shadow-lg" />}
+                        <span className="px-1.5 py-0.5 rounded bg-black/80 font-mono text-xs text-white">{formatTimestamp(hover.time)}</span>
+                    </div>
+                )}
+                {loop && (
+                    <div
+                        className="absolute inset-y-0 bg-amber-400/40"
+                        style={{ left: toPercent(loop.start), width: loop.end === undefined ? '2px' : `calc(${toPercent(loop.end)} - ${toPercent(loop.start)})` }}
+                    />
+                )}
+                <div className="absolute inset-y-0 left-0 bg-blue-500 rounded-full" style={{ width: `${progress}%` }} />
+                {state.duration > 0 && markers.map(marker => (
+                    <div
+                        key={marker.id}
+                        className={`absolute -top-1 -bottom-1 w-1 -translate-x-1/2 rounded-sm hover:scale-x-150 ${marker.kind === 'bookmark' ? 'bg-amber-400' : 'bg-white/70'}`}
+                        style={{ left: toPercent(marker.time) }}
+                        title={`${formatTimestamp(marker.time)} · ${marker.label}`}
+                        onPointerDown={(e) => {
+                            e.stopPropagation();
+                            const video = videoRef.current;
+                            if (video) video.currentTime = marker.time;
+                        }}
+                    />
+                ))}
+                <div
+                    className="absolute top-1/2 -translate-y-1/2 -translate-x-1/2 w-3 h-3 bg-white rounded-full shadow"
+                    style={{ left: `${progress}%` }}
+                />
+            </div>
+
+            <div className="flex items-center gap-1 text-sm">
+                <ControlButton onClick={onPrevious} disabled={!onPrevious} title={t('controls.previousLesson')}>
+                    <SkipBack className="w-4 h-4" />
+                </ControlButton>
+                <ControlButton onClick={togglePlay} title={t(state.isPaused ? 'controls.play' : 'controls.pause')}>
+                    {state.isPaused ? <Play className="w-5 h-5 fill-current" /> : <Pause className="w-5 h-5 fill-current" />}
+                </ControlButton>
+                <ControlButton onClick={onNext} disabled={!onNext} title={t('controls.nextLesson')}>
+                    <SkipForward className="w-4 h-4" />
+                </ControlButton>
+                <ControlButton onClick={() => stepFrame(-1)} title={t('controls.previousFrame')}>
+                    <StepBack className="w-4 h-4" />
+                </ControlButton>
+                <ControlButton onClick={() => stepFrame(1)} title={t('controls.nextFrame')}>
+                    <StepForward className="w-4 h-4" />
+                </ControlButton>
+                <ControlButton onClick={toggleMute} title={t(state.isMuted ? 'controls.unmute' : 'controls.mute')}>
+                    {state.isMuted || state.volume === 0 ? <VolumeX className="w-4 h-4" /> : <Volume2 className="w-4 h-4" />}
+                </ControlButton>
+                <input
+                    type="range"
+                    min={0}
+                    max={1}
+                    step={0.05}
+                    value={state.isMuted ? 0 : state.volume}
+                    className="w-20 accent-blue-500"
+                    onChange={(e) => {
+                        const video = videoRef.current;
+                        if (!video) return;
+                        video.volume = Number(e.target.value);
+                        video.muted = video.volume === 0;
+                    }}
+                />
+                <span className="ml-2 font-mono text-xs text-zinc-300">
+                    {formatTimestamp(state.currentTime)} / {formatTimestamp(state.duration)}
+                </span>
+                {currentChapter && (
+                    <span className="ml-2 text-xs text-zinc-400 truncate max-w-[30%]">· {currentChapter.label}</span>
+                )}
+
+                <div className="flex-1" />
+
+                <ControlButton onClick={() => onAddBookmark(videoRef.current?.currentTime ?? 0)} title={t('controls.addBookmark')}>
+                    <Bookmark className="w-4 h-4" />
+                </ControlButton>
+                <ControlButton
+                    isActive={!!loop}
+                    onClick={cycleLoop}
+                    title={t(!loop ? 'controls.loopStart' : loop.end === undefined ? 'controls.loopEnd' : 'controls.loopOff')}
+                    className="flex items-center gap-1 text-xs"
+                >
+                    <Repeat className="w-4 h-4" />
+                    {loop ? (loop.end === undefined ? 'A…' : 'A-B') : 'A-B'}
+                </ControlButton>
+                <select
+                    className="bg-transparent text-xs text-zinc-300 hover:text-white focus:outline-none cursor-pointer"
+                    title={t('controls.speed')}
+                    value={playbackRate}
+                    onChange={(e) => onPlaybackRateChange(Number(e.target.value))}
+                >
+                    {PLAYBACK_RATES.map(rate => (
+                        <option key={rate} value={rate} className="bg-zinc-900">{rate}x</option>
+                    ))}
+                </select>
+                <ControlButton isActive={isCompleted} onClick={onToggleComplete} title={t('controls.markComplete')}>
+                    <CheckCircle className="w-4 h-4" />
+                </ControlButton>
+                <ControlButton onClick={toggleFullscreen} title={t('controls.fullscreen')}>
+                    {isFullscreen ? <Minimize className="w-4 h-4" /> : <Maximize className="w-4 h-4" />}
+                </ControlButton>
+            </div>
+        </div>
+    );
+};
@@ -0,0 +1,37 @@
+import React from 'react';
+
+export interface ButtonProps extends React.ButtonHTMLAttributes<HTMLButtonElement> {
+    variant?: 'primary' | 'secondary' | 'ghost' | 'danger' | 'outline';
+    children: React.ReactNode;
+}
+
+export const Button: React.FC<ButtonProps> = ({ children, variant = 'primary', className = '', ...props }) => {
+    const baseStyle = "px-4 py-2 rounded-md font-medium transition-all duration-200 flex items-center justify-center gap-2 text-sm";
+    const variants = {
+        primary: "bg-blue-600 hover:bg-blue-700 text-white shadow-lg shadow-blue-900/20",
+        secondary: "bg-zinc-800 hover:bg-zinc-700 text-zinc-200 border border-zinc-700",
+        ghost: "bg-transparent hover:bg-zinc-800 text-zinc-400 hover:text-white",
+        danger: "bg-red-500/10 hover:bg-red-500/20 text-red-500 border border-red-500/20",
+        outline: "border border-zinc-700 text-zinc-300 hover:border-zinc-500 hover:bg-zinc-800/50"
+    };
+    return (
+        <button className={`${baseStyle} ${variants[variant]} ${className}`} {...props}>
+            {children}
+        </button>
+    );
+};
+
+export const Card: React.FC<{ children: React.ReactNode; className?: string }> = ({ children, className = '' }) => (
+    <div className={`bg-zinc-900 border border-zinc-800 rounded-xl overflow-hidden ${className}`}>
+        {children}
+    </div>
+);
+
+export const ProgressBar: React.FC<{ progress: number }> = ({ progress }) => (
+    <div className="h-1.5 w-full bg-zinc-800 rounded-full overflow-hidden">
+        <div
+            className="h-full bg-blue-500 transition-all duration-500 ease-out"
+            style={{ width: `${progress}%` }}
+        />
+    </div>
+);
@@ -0,0 +1,127 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import type { Course } from '@/lib/types';
+import { type CourseRepository, type StorageIssue, loadLibrary } from '@/lib/courseRepository';
+import { type LibraryMessage, mergeCourseVersions, openLibraryChannel, stampChanges } from '@/lib/librarySync';
+
+// Course library state backed by the repository. Updates stay immutable, so after each change
+// only the course objects whose reference changed are written, and removed ones deleted.
+// Writes are announced to the other open tabs, and theirs merged in here (see librarySync).
+export function useCourseLibrary() {
+    const [courses, setCourses] = useState<Course[]>([]);
+    const [isLoaded, setLoaded] = useState<boolean>(false);
+    const [deletedElsewhere, setDeletedElsewhere] = useState<Course[]>([]); // Removed by another tab
+    const [storageIssues, setStorageIssues] = useState<StorageIssue[]>([]); // Shown until dismissed
+    const repositoryRef = useRef<CourseRepository | null>(null);
+    const persistedRef = useRef<Course[]>([]);
+    const storedRef = useRef<Map<string, Course>>(new Map()); // Stamped versions, as written to storage
+    // Courses that came from another tab: 'stored' ones are already in storage as they are,
+    // 'stamped' ones still need writing but carry their stamps already
+    const receivedRef = useRef<WeakMap<Course, 'stored' | 'stamped'>>(new WeakMap());
+    const channelRef = useRef<BroadcastChannel | null>(null);
+
+    // Changes from other tabs. Saved courses are merged with the local stamped copy (including
+    // changes not written yet); a course only changes here when the other tab had something newer.
+    // The channel opens before the library loads, so messages sent meanwhile are queued, not lost.
+    useEffect(() => {
+        let cancelled = false;
+        let pending: LibraryMessage[] | null = []; // Until the library is loaded
+
+        const applyMessage = (message: LibraryMessage) => {
+            if (message.type === 'deleted') {
+                const removed = persistedRef.current.filter(c => message.courseIds.includes(c.id));
+                if (removed.length === 0) return;
+                setCourses(prev => prev.filter(c => !message.courseIds.includes(c.id)));
+                setDeletedElsewhere(prev => [...prev, ...removed]);
+                return;
+            }
+
+            const now = new Date().toISOString();
+            const persistedById = new Map(persistedRef.current.map(c => [c.id, c]));
+            setCourses(prev => {
+                let next = prev;
+                message.courses.forEach(remote => {
+                    const index = next.findIndex(c => c.id === remote.id);
+                    if (index < 0) {
+                        receivedRef.current.set(remote, 'stored');
+                        next = [...next, remote];
+                        return;
+                    }
+                    const local = stampChanges(storedRef.current.get(remote.id), persistedById.get(remote.id), next[index], now);
+                    const merged = mergeCourseVersions(local, remote);
+                    if (merged === local) return;
+                    receivedRef.current.set(merged, merged === remote ? 'stored' : 'stamped');
+                    next = next.map((c, i) => i === index ? merged : c);
+                });
+                return next;
+            });
+        };
+
+        const channel = openLibraryChannel();
+        if (channel) {
+            channelRef.current = channel;
+            channel.onmessage = (event: MessageEvent<LibraryMessage>) => {
+                if (pending) pending.push(event.data);
+                else applyMessage(event.data);
+            };
+        }
+
+        loadLibrary()
+            .then(({ repository, courses: loaded, issues }) => {
+                if (cancelled) return;
+                setStorageIssues(issues);
+                repositoryRef.current = repository;
+                persistedRef.current = loaded;
+                storedRef.current = new Map(loaded.map(c => [c.id, c]));
+                setCourses(loaded);
+                setLoaded(true);
+                const queued = pending ?? [];
+                pending = null;
+                queued.forEach(applyMessage);
+            })
+            .catch(() => {
+                if (cancelled) return;
+                setStorageIssues(['loadFailed']);
+                setLoaded(true);
+            });
+
+        return () => {
+            cancelled = true;
+            channel?.close();
+            channelRef.current = null;
+        };
+    }, []);
+
+    useEffect(() => {
+        const repository = repositoryRef.current;
+        if (!isLoaded || !repository || persistedRef.current === courses) return;
+
+        const previousById = new Map(persistedRef.current.map(c => [c.id, c]));
+        const currentIds = new Set(courses.map(c => c.id));
+        const changed = courses.filter(c => previousById.get(c.id) !== c);
+        const removedIds = persistedRef.current.filter(c => !currentIds.has(c.id)).map(c => c.id);
+        persistedRef.current = courses;
+
+        const now = new Date().toISOString();
+        const toWrite: Course[] = [];
+        changed.forEach(c => {
+            const received = receivedRef.current.get(c);
+            const stamped = received ? c : stampChanges(storedRef.current.get(c.id), previousById.get(c.id), c, now);
+            storedRef.current.set(c.id, stamped);
+            if (received !== 'stored') toWrite.push(stamped);
+        });
+        removedIds.forEach(id => storedRef.current.delete(id));
+
+        Promise.all([repository.saveCourses(toWrite), repository.deleteCourses(removedIds)])
+            .then(() => {
+                if (toWrite.length > 0) channelRef.current?.postMessage({ type: 'saved', courses: toWrite } satisfies LibraryMessage);
+                if (removedIds.length > 0) channelRef.current?.postMessage({ type: 'deleted', courseIds: removedIds } satisfies LibraryMessage);
+            })
+            .catch(() => setStorageIssues(prev => prev.includes('saveFailed') ? prev : [...prev, 'saveFailed']));
+    }, [courses, isLoaded]);
+
+    const dismissStorageIssue = useCallback((issue: StorageIssue) => {
+        setStorageIssues(prev => prev.filter(i => i !== issue));
+    }, []);
+
+    return [courses, setCourses, isLoaded, deletedElsewhere, storageIssues, dismissStorageIssue] as const;
+}
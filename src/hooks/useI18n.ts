@@ -0,0 +1,11 @@
+import { createContext, useContext } from 'react';
+import { type I18n, type Locale, DEFAULT_LOCALE, createI18n } from '@/lib/i18n';
+
+export interface I18nContextValue extends I18n {
+    setLocale: (locale: Locale) => void;
+}
+
+export const I18nContext = createContext<I18nContextValue>({ ...createI18n(DEFAULT_LOCALE), setLocale: () => undefined });
+
+// Translation function and locale-aware formatters for the language picked by the user
+export const useI18n = () => useContext(I18nContext);
@@ -0,0 +1,21 @@
+import { useEffect, useState } from 'react';
+
+// useState backed by a localStorage key (JSON-encoded). Falls back to the initial value
+// when the key is missing or holds something that can't be parsed.
+export function usePersistentState<T>(key: string, initialValue: T) {
+    const [value, setValue] = useState<T>(() => {
+        const saved = localStorage.getItem(key);
+        if (saved === null) return initialValue;
+        try {
+            return JSON.parse(saved) as T;
+        } catch {
+            return initialValue;
+        }
+    });
+
+    useEffect(() => {
+        localStorage.setItem(key, JSON.stringify(value));
+    }, [key, value]);
+
+    return [value, setValue] as const;
+}
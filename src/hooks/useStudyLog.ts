@@ -0,0 +1,33 @@
+import { useCallback, useEffect, useState } from 'react';
+import { type StudyEntry, addStudyTime, loadStudyLog, recordStudyTime, toDayKey } from '@/lib/studyLog';
+
+export type StudyLogIssue = 'loadFailed' | 'saveFailed';
+
+// Session log kept in memory for the dashboard and appended to IndexedDB as time is watched
+export function useStudyLog() {
+    const [entries, setEntries] = useState<StudyEntry[]>([]);
+    const [issues, setIssues] = useState<StudyLogIssue[]>([]); // Shown until dismissed
+    const addIssue = useCallback((issue: StudyLogIssue) => setIssues(prev => prev.includes(issue) ? prev : [...prev, issue]), []);
+
+    useEffect(() => {
+        let cancelled = false;
+        loadStudyLog()
+            .then(loaded => {
+                if (!cancelled) setEntries(prev => prev.reduce(addStudyTime, loaded));
+            })
+            .catch(() => {
+                if (!cancelled) addIssue('loadFailed');
+            });
+        return () => { cancelled = true; };
+    }, [addIssue]);
+
+    const recordStudy = useCallback((courseId: string, lessonId: string, seconds: number) => {
+        const entry: StudyEntry = { day: toDayKey(new Date()), courseId, lessonId, seconds };
+        setEntries(prev => addStudyTime(prev, entry));
+        recordStudyTime(entry).catch(() => addIssue('saveFailed'));
+    }, [addIssue]);
+
+    const dismissIssue = useCallback((issue: StudyLogIssue) => setIssues(prev => prev.filter(i => i !== issue)), []);
+
+    return [entries, recordStudy, issues, dismissIssue] as const;
+}
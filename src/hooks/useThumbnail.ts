@@ -0,0 +1,21 @@
+import { useEffect, useState } from 'react';
+import type { Lesson } from '@/lib/types';
+import { getThumbnailKey, loadThumbnail } from '@/lib/thumbnails';
+
+// Thumbnail of a lesson as an object URL. The cached frame is shown even when the folder is not linked;
+// generating a new one needs the file. Unmounting before the capture starts takes it out of the queue.
+export function useThumbnail(lesson: Lesson | undefined, file?: File): string | null {
+    const key = lesson ? getThumbnailKey(lesson.fileKey, lesson.size ?? file?.size) : null;
+    const [thumbnail, setThumbnail] = useState<{ key: string; url: string | null } | null>(null);
+
+    useEffect(() => {
+        if (!key) return;
+        const controller = new AbortController();
+        loadThumbnail(key, file, controller.signal).then(url => {
+            if (!controller.signal.aborted) setThumbnail({ key, url });
+        });
+        return () => controller.abort();
+    }, [key, file]);
+
+    return thumbnail?.key === key ? thumbnail.url : null;
+}
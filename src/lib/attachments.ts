@@ -0,0 +1,105 @@
+import type { Attachment, AttachmentKind, Course, Lesson, Module } from '@/lib/types';
+import type { PickedFile } from '@/lib/fileSystemAccess';
+import { getModulePath, getPathInCourse, modulePathOf, stripExtension } from '@/lib/courseStructure';
+import { getAllModules, getCourseLessons, mapModuleTree } from '@/lib/courseTree';
+import { isChapterFile } from '@/lib/chapters';
+import { isManifestFile } from '@/lib/courseManifest';
+
+// Course materials found next to the videos, attached to the lesson they are named after
+// or else to the module of their folder
+
+const KIND_BY_EXTENSION: Record<string, AttachmentKind> = {
+    pdf: 'pdf',
+    png: 'image', jpg: 'image', jpeg: 'image', gif: 'image', webp: 'image', svg: 'image',
+    txt: 'text', md: 'text', csv: 'text', json: 'text', xml: 'text', yml: 'text', yaml: 'text',
+    js: 'text', jsx: 'text', ts: 'text', tsx: 'text', py: 'text', java: 'text', kt: 'text', c: 'text', h: 'text',
+    cpp: 'text', cs: 'text', go: 'text', rs: 'text', rb: 'text', php: 'text', sql: 'text', sh: 'text',
+    html: 'text', css: 'text', scss: 'text', ipynb: 'text',
+    url: 'link', webloc: 'link',
+    ppt: 'slides', pptx: 'slides', key: 'slides', odp: 'slides',
+    doc: 'document', docx: 'document', odt: 'document', xls: 'document', xlsx: 'document', ods: 'document',
+    zip: 'archive', rar: 'archive', '7z': 'archive', tar: 'archive', gz: 'archive',
+};
+
+const extensionOf = (name: string) => name.includes('.') ? name.split('.').pop()!.toLowerCase() : '';
+
+export const isAttachmentFile = (file: File) =>
+    extensionOf(file.name) in KIND_BY_EXTENSION && !file.name.startsWith('.') && !isChapterFile(file) && !isManifestFile(file);
+
+const createAttachment = ({ file, relativePath }: PickedFile): Attachment => ({
+    fileKey: relativePath,
+    name: file.name,
+    kind: KIND_BY_EXTENSION[extensionOf(file.name)],
+    size: file.size
+});
+
+const folderOf = (path: string) => path.slice(0, path.lastIndexOf('/') + 1);
+
+// "Aula 01.pdf" and "Aula 01 - slides.pdf" both belong to "Aula 01.mp4"; the longest lesson name wins
+function findOwnerLesson(lessons: Lesson[], attachmentPath: string): Lesson | undefined {
+    const folder = folderOf(attachmentPath);
+    const base = stripExtension(attachmentPath.slice(folder.length)).toLowerCase();
+    let owner: Lesson | undefined;
+    let ownerBase = '';
+    lessons.forEach(lesson => {
+        const lessonPath = getPathInCourse(lesson.fileKey);
+        if (folderOf(lessonPath) !== folder) return;
+        const lessonBase = stripExtension(lesson.originalName).toLowerCase();
+        const matches = base === lessonBase || (base.startsWith(lessonBase) && /^[\s._-]/.test(base.slice(lessonBase.length)));
+        if (matches && lessonBase.length > ownerBase.length) {
+            owner = lesson;
+            ownerBase = lessonBase;
+        }
+    });
+    return owner;
+}
+
+// Module of the attachment's folder, or of the closest parent folder that has one
+function findOwnerModule(modules: Module[], relativePath: string): Module | undefined {
+    const all = getAllModules(modules);
+    const path = getModulePath(relativePath);
+    for (let depth = path.length; depth > 0; depth--) {
+        const module = all.find(m => modulePathOf(m) === path.slice(0, depth).join('/'));
+        if (module) return module;
+    }
+    return modules[0];
+}
+
+// Rebuilds the attachment index of a course from the files currently in its folder
+export function indexAttachments(course: Course, files: PickedFile[]): Course {
+    const lessons = getCourseLessons(course);
+    const byLesson = new Map<string, Attachment[]>();
+    const byModule = new Map<string, Attachment[]>();
+    const add = (map: Map<string, Attachment[]>, id: string, attachment: Attachment) =>
+        map.set(id, [...(map.get(id) ?? []), attachment]);
+
+    files.filter(f => isAttachmentFile(f.file)).forEach(picked => {
+        const attachment = createAttachment(picked);
+        const lesson = findOwnerLesson(lessons, getPathInCourse(picked.relativePath));
+        if (lesson) {
+            add(byLesson, lesson.id, attachment);
+            return;
+        }
+        const module = findOwnerModule(course.modules, picked.relativePath);
+        if (module) add(byModule, module.id, attachment);
+    });
+
+    const sorted = (list?: Attachment[]) =>
+        list?.sort((a, b) => a.name.localeCompare(b.name, undefined, { numeric: true }));
+
+    return {
+        ...course,
+        modules: mapModuleTree(course.modules, m => ({
+            ...m,
+            attachments: sorted(byModule.get(m.id)),
+            lessons: m.lessons.map(l => l.attachments || byLesson.has(l.id) ? { ...l, attachments: sorted(byLesson.get(l.id)) } : l)
+        }))
+    };
+}
+
+// Target of an Internet shortcut: Windows .url (INI) or macOS .webloc (plist)
+export async function readLinkTarget(file: File): Promise<string | null> {
+    const text = await file.text();
+    const match = /^URL=(.+)$/m.exec(text) ?? /<string>([^<]+)<\/string>/.exec(text);
+    return match ? match[1].trim() : null;
+}
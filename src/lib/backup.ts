@@ -0,0 +1,158 @@
+import type { Course, Lesson } from '@/lib/types';
+import { ValidationError, isObject, validateCourse } from '@/lib/validation';
+import { computeFingerprint, courseSignatures } from '@/lib/fingerprint';
+import { addWatchedRange } from '@/lib/watchedRanges';
+import { getCourseLessons, mapCourseLessons } from '@/lib/courseTree';
+import { getModulePath, getPathInCourse, insertLesson } from '@/lib/courseStructure';
+import { randomId } from '@/lib/ids';
+
+// Versioned JSON backup of the library (or of a single course)
+
+export const BACKUP_SCHEMA_VERSION = 1;
+
+export interface LibraryBackup {
+    app: 'omniLearn';
+    schemaVersion: number;
+    exportedAt: string;
+    courses: Course[];
+}
+
+export type BackupErrorReason = 'invalidJson' | 'notABackup' | 'missingVersion' | 'newerVersion' | 'missingCourses' | 'invalidCourse';
+
+// The reason lets the interface explain the problem in the user's language; the message stays
+// as a technical detail. Invalid courses also carry the validation error that caused them.
+export class BackupError extends Error {
+    reason: BackupErrorReason;
+    validation?: ValidationError;
+
+    constructor(reason: BackupErrorReason, message: string, validation?: ValidationError) {
+        super(message);
+        this.name = 'BackupError';
+        this.reason = reason;
+        this.validation = validation;
+    }
+}
+
+export function createBackup(courses: Course[]): LibraryBackup {
+    return {
+        app: 'omniLearn',
+        schemaVersion: BACKUP_SCHEMA_VERSION,
+        exportedAt: new Date().toISOString(),
+        courses
+    };
+}
+
+export function parseBackup(text: string): LibraryBackup {
+    let data: unknown;
+    try {
+        data = JSON.parse(text);
+    } catch {
+        throw new BackupError('invalidJson', 'O arquivo não é um JSON válido.');
+    }
+    if (!isObject(data) || data.app !== 'omniLearn') {
+        throw new BackupError('notABackup', 'O arquivo não é um backup do OmniLearn.');
+    }
+    if (typeof data.schemaVersion !== 'number') {
+        throw new BackupError('missingVersion', 'O backup não informa a versão do formato ("schemaVersion").');
+    }
+    if (data.schemaVersion > BACKUP_SCHEMA_VERSION) {
+        throw new BackupError('newerVersion', `O backup usa a versão ${data.schemaVersion} do formato, mais nova que a suportada (${BACKUP_SCHEMA_VERSION}). Atualize o aplicativo.`);
+    }
+    if (!Array.isArray(data.courses)) {
+        throw new BackupError('missingCourses', 'O backup não contém a lista de cursos.');
+    }
+    return {
+        app: 'omniLearn',
+        schemaVersion: data.schemaVersion,
+        exportedAt: typeof data.exportedAt === 'string' ? data.exportedAt : '',
+        courses: data.courses.map((course, index) => {
+            try {
+                return validateCourse(course, index);
+            } catch (err) {
+                throw err instanceof ValidationError ? new BackupError('invalidCourse', err.message, err) : err;
+            }
+        })
+    };
+}
+
+// --- Merge ---
+
+const fingerprintOf = (course: Course) => course.fingerprint ?? computeFingerprint(courseSignatures(course));
+
+// Items with an id keep the current version when both sides have them
+const mergeById = <T extends { id: string }>(a: T[] = [], b: T[] = []) => {
+    const ids = new Set(a.map(n => n.id));
+    return [...a, ...b.filter(n => !ids.has(n.id))];
+};
+
+// Timed items (notes, bookmarks) are also kept in video order
+const mergeTimed = <T extends { id: string; time: number }>(a: T[] = [], b: T[] = []) =>
+    mergeById(a, b).sort((x, y) => x.time - y.time);
+
+// Imported values win for titles and notes; completion and watched time are never lost.
+// What describes the files on this disk stays as it is here: the backup may come from the same
+// course under another root folder, or from before files were moved or removed.
+function mergeLesson(current: Lesson, imported: Lesson): Lesson {
+    return {
+        ...current,
+        ...imported,
+        id: current.id,
+        fileKey: current.fileKey,
+        size: current.size,
+        isMissing: current.isMissing,
+        attachments: current.attachments,
+        subtitles: mergeById(current.subtitles, imported.subtitles),
+        isCompleted: current.isCompleted || imported.isCompleted,
+        // A lesson completed here keeps its own date; one completed only in the backup takes the backup's
+        completedAt: current.isCompleted ? current.completedAt ?? imported.completedAt : imported.completedAt,
+        notes: imported.notes || current.notes,
+        timedNotes: mergeTimed(current.timedNotes, imported.timedNotes),
+        bookmarks: mergeTimed(current.bookmarks, imported.bookmarks),
+        lastPosition: imported.lastPosition ?? current.lastPosition,
+        watchedRanges: (imported.watchedRanges ?? []).reduce(
+            (ranges, [start, end]) => addWatchedRange(ranges, start, end),
+            current.watchedRanges ?? []
+        )
+    };
+}
+
+// Lessons are matched by their path inside the course, like the fingerprint, so a backup taken
+// under a renamed root folder still lines up
+function mergeCourse(current: Course, imported: Course): Course {
+    const importedByKey = new Map(getCourseLessons(imported).map(l => [getPathInCourse(l.fileKey), l]));
+    let merged = mapCourseLessons(current, l => {
+        const key = getPathInCourse(l.fileKey);
+        const match = importedByKey.get(key);
+        if (!match) return l;
+        importedByKey.delete(key);
+        return mergeLesson(l, match);
+    });
+
+    // Lessons only present in the backup go to the module of their folder
+    importedByKey.forEach(lesson => {
+        merged = { ...merged, modules: insertLesson(merged.modules, getModulePath(lesson.fileKey), lesson, current.id) };
+    });
+
+    return {
+        ...merged,
+        lastLessonId: current.lastLessonId ?? imported.lastLessonId,
+        lastWatchedAt: [current.lastWatchedAt, imported.lastWatchedAt].filter(Boolean).sort().pop(),
+        // Lessons may have been added, and the next import of the folder should still match exactly
+        fingerprint: computeFingerprint(courseSignatures(merged))
+    };
+}
+
+// Courses are matched by fingerprint; unmatched ones are added (with a fresh id if it collides)
+export function mergeLibraries(current: Course[], imported: Course[]): Course[] {
+    const result = [...current];
+    imported.forEach(course => {
+        const index = result.findIndex(c => fingerprintOf(c) === fingerprintOf(course));
+        if (index >= 0) {
+            result[index] = mergeCourse(result[index], course);
+        } else {
+            const id = result.some(c => c.id === course.id) ? `course_${randomId()}` : course.id;
+            result.push({ ...course, id });
+        }
+    });
+    return result;
+}
@@ -0,0 +1,46 @@
+import { stripExtension } from '@/lib/courseStructure';
+import { parseVttCues } from '@/lib/subtitles';
+
+// Chapter sidecars: "aula01.chapters.txt" (one "mm:ss Title" per line, as in video descriptions)
+// or "aula01.chapters.vtt" (WebVTT chapters track), next to the video and named after it
+
+export interface Chapter {
+    start: number; // Seconds
+    title: string;
+}
+
+const CHAPTER_FILE = /\.chapters\.(txt|vtt)$/i;
+
+export const isChapterFile = (file: File) => CHAPTER_FILE.test(file.name);
+
+export function findSidecarChapters(videoKey: string, fileKeys: string[]): string[] {
+    const slash = videoKey.lastIndexOf('/');
+    const folder = videoKey.slice(0, slash + 1);
+    const videoBase = stripExtension(videoKey.slice(slash + 1)).toLowerCase();
+
+    return fileKeys.filter(key => {
+        if (!key.startsWith(folder) || !CHAPTER_FILE.test(key)) return false;
+        const name = key.slice(folder.length);
+        return !name.includes('/') && name.replace(CHAPTER_FILE, '').toLowerCase() === videoBase;
+    });
+}
+
+// "0:00 Intro", "01:02:03 - Conclusão", "12:30 – Exercícios"
+const CHAPTER_LINE = /^\s*\[?((?:\d+:)?\d{1,2}:\d{2})(?:[.,]\d+)?\]?\s*[-–—:|]?\s*(.+?)\s*$/;
+
+export function parseChapterList(text: string): Chapter[] {
+    return text.replace(/^\uFEFF/, '').split(/\r?\n/).flatMap(line => {
+        const match = CHAPTER_LINE.exec(line);
+        if (!match) return [];
+        const start = match[1].split(':').map(Number).reduce((total, part) => total * 60 + part, 0);
+        return [{ start, title: match[2] }];
+    });
+}
+
+export async function readChapters(file: File): Promise<Chapter[]> {
+    const text = await file.text();
+    const chapters = /\.vtt$/i.test(file.name)
+        ? parseVttCues(text).map(cue => ({ start: cue.start, title: cue.text }))
+        : parseChapterList(text);
+    return chapters.sort((a, b) => a.start - b.start);
+}
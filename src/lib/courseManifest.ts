@@ -0,0 +1,181 @@
+import type { Course, Lesson, Module } from '@/lib/types';
+import type { PickedFile } from '@/lib/fileSystemAccess';
+import { createLesson, getModulePath, getPathInCourse, insertLesson } from '@/lib/courseStructure';
+import { isObject } from '@/lib/validation';
+import { randomId } from '@/lib/ids';
+
+// Optional course.json at the root of a course folder. It declares the structure by hand for courses
+// whose file names defeat the automatic one; videos it doesn't list are still placed by folder.
+
+export const MANIFEST_FILE_NAME = 'course.json';
+
+export interface ManifestLesson {
+    file: string; // Path inside the course folder, e.g. "Modulo 1/aula-03.mp4"
+    title?: string; // Defaults to the file name
+    description?: string;
+}
+
+export interface ManifestModule {
+    title: string;
+    lessons?: ManifestLesson[];
+    modules?: ManifestModule[];
+}
+
+export interface CourseManifest {
+    title?: string; // Defaults to the folder name
+    modules: ManifestModule[];
+}
+
+export type ManifestErrorReason = 'invalidJson' | 'notAnObject' | 'invalidField' | 'unknownFile' | 'duplicateFile';
+
+// The detail is the field ("modules[1].lessons[0].file") or video path the problem is about
+export class ManifestError extends Error {
+    reason: ManifestErrorReason;
+    detail: string;
+
+    constructor(reason: ManifestErrorReason, detail = '') {
+        super(detail ? `${reason}: ${detail}` : reason);
+        this.name = 'ManifestError';
+        this.reason = reason;
+        this.detail = detail;
+    }
+}
+
+export const isManifestFile = (file: File) => file.name.toLowerCase() === MANIFEST_FILE_NAME;
+
+// Only a manifest right at the root of the folder counts
+export const findManifestFile = (files: PickedFile[]) =>
+    files.find(f => isManifestFile(f.file) && f.relativePath.split('/').length === 2);
+
+// --- Parsing ---
+
+const isOptionalString = (value: unknown) => value === undefined || typeof value === 'string';
+
+// Windows-style separators and a leading "./" are accepted in file paths
+const normalizePath = (path: string) => path.replace(/\\/g, '/').replace(/^(\.\/)+/, '');
+
+function parseLesson(value: unknown, where: string): ManifestLesson {
+    if (!isObject(value)) throw new ManifestError('invalidField', where);
+    if (typeof value.file !== 'string' || !value.file.trim()) throw new ManifestError('invalidField', `${where}.file`);
+    if (!isOptionalString(value.title)) throw new ManifestError('invalidField', `${where}.title`);
+    if (!isOptionalString(value.description)) throw new ManifestError('invalidField', `${where}.description`);
+    return {
+        file: normalizePath(value.file.trim()),
+        ...(value.title ? { title: value.title as string } : {}),
+        ...(value.description ? { description: value.description as string } : {})
+    };
+}
+
+function parseModule(value: unknown, where: string): ManifestModule {
+    if (!isObject(value)) throw new ManifestError('invalidField', where);
+    if (typeof value.title !== 'string' || !value.title.trim()) throw new ManifestError('invalidField', `${where}.title`);
+    if (value.lessons !== undefined && !Array.isArray(value.lessons)) throw new ManifestError('invalidField', `${where}.lessons`);
+    if (value.modules !== undefined && !Array.isArray(value.modules)) throw new ManifestError('invalidField', `${where}.modules`);
+    return {
+        title: value.title.trim(),
+        lessons: Array.isArray(value.lessons) ? value.lessons.map((l, i) => parseLesson(l, `${where}.lessons[${i}]`)) : [],
+        ...(Array.isArray(value.modules)
+            ? { modules: value.modules.map((m, i) => parseModule(m, `${where}.modules[${i}]`)) }
+            : {})
+    };
+}
+
+export function parseManifest(text: string): CourseManifest {
+    let data: unknown;
+    try {
+        data = JSON.parse(text);
+    } catch {
+        throw new ManifestError('invalidJson');
+    }
+    if (!isObject(data)) throw new ManifestError('notAnObject');
+    if (!isOptionalString(data.title)) throw new ManifestError('invalidField', 'title');
+    if (!Array.isArray(data.modules)) throw new ManifestError('invalidField', 'modules');
+    return {
+        ...(typeof data.title === 'string' && data.title.trim() ? { title: data.title.trim() } : {}),
+        modules: data.modules.map((m, i) => parseModule(m, `modules[${i}]`))
+    };
+}
+
+// --- Building ---
+
+const folderKey = (relativePath: string) => getModulePath(relativePath).join('/');
+
+// Builds a course following the manifest. Modules take the folder path shared by all of their
+// lessons (when no other module claims it), so re-syncs and attachments still find them by folder.
+// Videos left out of the manifest go to the module of their folder, created as needed.
+export function createCourseFromManifest(manifest: CourseManifest, folderName: string, videoFiles: PickedFile[]): Course {
+    const courseId = `course_${randomId()}`;
+    const byPath = new Map(videoFiles.map(f => [getPathInCourse(f.relativePath), f]));
+    const used = new Set<string>();
+
+    const buildLesson = (entry: ManifestLesson): Lesson => {
+        const picked = byPath.get(entry.file);
+        if (!picked) throw new ManifestError('unknownFile', entry.file);
+        if (used.has(entry.file)) throw new ManifestError('duplicateFile', entry.file);
+        used.add(entry.file);
+        const lesson = createLesson(picked);
+        return {
+            ...lesson,
+            title: entry.title ?? lesson.title,
+            ...(entry.description ? { description: entry.description } : {})
+        };
+    };
+
+    const folders: (string | null)[] = [];
+    const buildModule = (entry: ManifestModule): Module => {
+        const lessons = (entry.lessons ?? []).map(buildLesson);
+        const lessonFolders = new Set(lessons.map(l => folderKey(l.fileKey)));
+        const folder = lessonFolders.size === 1 ? [...lessonFolders][0] : null;
+        folders.push(folder);
+        return {
+            id: `mod_manifest_${randomId()}`,
+            title: entry.title,
+            path: folder ?? '',
+            lessons,
+            hasCustomOrder: true,
+            ...(entry.modules ? { modules: entry.modules.map(buildModule) } : {})
+        };
+    };
+
+    const built = manifest.modules.map(buildModule);
+    // A folder split across modules belongs to none of them
+    const shared = new Set(folders.filter((f, i) => f !== null && folders.indexOf(f) !== i));
+    const unclaim = (modules: Module[]): Module[] => modules.map(m => ({
+        ...m,
+        path: shared.has(m.path ?? '') ? '' : m.path,
+        ...(m.modules ? { modules: unclaim(m.modules) } : {})
+    }));
+
+    let modules = unclaim(built);
+    videoFiles
+        .filter(f => !used.has(getPathInCourse(f.relativePath)))
+        .forEach(picked => {
+            modules = insertLesson(modules, getModulePath(picked.relativePath), createLesson(picked), courseId);
+        });
+
+    return {
+        id: courseId,
+        title: manifest.title ?? folderName,
+        modules,
+        createdAt: new Date().toISOString()
+    };
+}
+
+// --- Export ---
+
+// Manifest reproducing the current structure and titles. Lessons whose file is gone are left out,
+// so the manifest can be saved next to the videos and used as is.
+export function createManifest(course: Course): CourseManifest {
+    const toManifestModule = (module: Module): ManifestModule => ({
+        title: module.title,
+        lessons: module.lessons
+            .filter(l => !l.isMissing)
+            .map(l => ({
+                file: getPathInCourse(l.fileKey),
+                title: l.title,
+                ...(l.description ? { description: l.description } : {})
+            })),
+        ...(module.modules?.length ? { modules: module.modules.map(toManifestModule) } : {})
+    });
+    return { title: course.title, modules: course.modules.map(toManifestModule) };
+}
@@ -0,0 +1,71 @@
+import type { Course, Lesson, Module } from '@/lib/types';
+import { getAllModules, getCourseLessons, mapModuleTree } from '@/lib/courseTree';
+import { modulePathOf } from '@/lib/courseStructure';
+import { randomId } from '@/lib/ids';
+
+// Arrangement of a course by hand. Lessons keep their id and file key and folder modules keep
+// their path, so re-syncing the folder finds everything where the user left it.
+
+// Modules created by hand have an empty path: no folder on disk maps to them
+export const createCustomModule = (title: string): Module =>
+    ({ id: `mod_custom_${randomId()}`, title, path: '', lessons: [] });
+
+export const addModule = (course: Course, module: Module): Course => ({ ...course, modules: [...course.modules, module] });
+
+// Modules from older versions are matched to their folder by title, so the path is pinned before renaming
+export const renameModule = (course: Course, moduleId: string, title: string): Course => ({
+    ...course,
+    modules: mapModuleTree(course.modules, m => m.id === moduleId ? { ...m, path: modulePathOf(m), title } : m)
+});
+
+const isEmptyModule = (module: Module) => module.lessons.length === 0 && (module.modules ?? []).length === 0;
+
+// Only empty modules can be removed, so no lesson is ever dropped along with one
+export function removeModule(course: Course, moduleId: string): Course {
+    const prune = (modules: Module[]): Module[] => modules
+        .filter(m => m.id !== moduleId || !isEmptyModule(m))
+        .map(m => m.modules ? { ...m, modules: prune(m.modules) } : m);
+    return { ...course, modules: prune(course.modules) };
+}
+
+// Moves a lesson into a module, right before one of its lessons or at its end
+export function moveLesson(course: Course, lessonId: string, targetModuleId: string, beforeLessonId?: string): Course {
+    const lesson = getCourseLessons(course).find(l => l.id === lessonId);
+    if (!lesson || lessonId === beforeLessonId) return course;
+
+    const modules = mapModuleTree(course.modules, m => {
+        const lessons: Lesson[] = m.lessons.filter(l => l.id !== lessonId);
+        if (m.id !== targetModuleId) return lessons.length === m.lessons.length ? m : { ...m, lessons };
+        const index = beforeLessonId ? lessons.findIndex(l => l.id === beforeLessonId) : -1;
+        lessons.splice(index < 0 ? lessons.length : index, 0, lesson);
+        return { ...m, lessons, hasCustomOrder: true };
+    });
+    return { ...course, modules };
+}
+
+// Moves a module, with everything inside it, right before another one (possibly under a different parent).
+// Without a module to go before, it goes last: among the sub-modules of parentModuleId, or at the top level.
+export function moveModule(course: Course, moduleId: string, beforeModuleId?: string, parentModuleId?: string): Course {
+    const module = getAllModules(course.modules).find(m => m.id === moduleId);
+    const targetId = beforeModuleId ?? parentModuleId;
+    // A module cannot be placed inside its own subtree
+    if (!module || (targetId && getAllModules([module]).some(m => m.id === targetId))) return course;
+
+    const remove = (modules: Module[]): Module[] => modules
+        .filter(m => m.id !== moduleId)
+        .map(m => m.modules ? { ...m, modules: remove(m.modules) } : m);
+
+    const insert = (modules: Module[]): Module[] => {
+        const index = modules.findIndex(m => m.id === beforeModuleId);
+        if (index >= 0) return [...modules.slice(0, index), module, ...modules.slice(index)];
+        return modules.map(m => m.modules ? { ...m, modules: insert(m.modules) } : m);
+    };
+
+    const remaining = remove(course.modules);
+    if (beforeModuleId) return { ...course, modules: insert(remaining) };
+    if (!parentModuleId) return { ...course, modules: [...remaining, module] };
+    return {
+        ...course,
+        modules: mapModuleTree(remaining, m => m.id === parentModuleId ? { ...m, modules: [...(m.modules ?? []), module] } : m)
+    };
+}
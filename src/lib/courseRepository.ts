@@ -0,0 +1,152 @@
+import type { Course } from '@/lib/types';
+import { STORES, openDatabase, requestToPromise, transactionDone } from '@/lib/db';
+import {
+    DATA_SCHEMA_VERSION,
+    LEGACY_STORAGE_KEY,
+    type MigrationIssue,
+    backupLegacyStorage,
+    retireLegacyStorage,
+    runMigrations
+} from '@/lib/migrations';
+import { validateCourse } from '@/lib/validation';
+import { randomId } from '@/lib/ids';
+
+// Storage problems shown to the user. The library still opens with whatever could be read;
+// the failures ('loadFailed', 'saveFailed') are reported by useCourseLibrary.
+export type StorageIssue = MigrationIssue | 'corruptRecords' | 'corruptStorage' | 'indexedDbUnavailable' | 'loadFailed' | 'saveFailed';
+
+export interface LoadedCourses {
+    courses: Course[];
+    issues: StorageIssue[];
+}
+
+// Persistence for the course library. Writes are per course, so a change to one lesson
+// doesn't re-serialize the whole library.
+export interface CourseRepository {
+    loadCourses(): Promise<LoadedCourses>;
+    saveCourses(courses: Course[]): Promise<void>;
+    deleteCourses(courseIds: string[]): Promise<void>;
+}
+
+const SCHEMA_VERSION_KEY = 'schemaVersion';
+
+// Splits stored records into valid courses and the ones that can't be read anymore
+function partitionRecords(records: unknown[]) {
+    const valid: Course[] = [];
+    const corrupt: { record: unknown; error: string }[] = [];
+    records.forEach((record, index) => {
+        try {
+            valid.push(validateCourse(record, index));
+        } catch (err) {
+            corrupt.push({ record, error: err instanceof Error ? err.message : String(err) });
+        }
+    });
+    return { valid, corrupt };
+}
+
+export function createIndexedDbRepository(): CourseRepository {
+    return {
+        async loadCourses() {
+            const issues: StorageIssue[] = [];
+            const db = await openDatabase();
+            const tx = db.transaction([STORES.courses, STORES.meta, STORES.corruptRecords], 'readwrite');
+            const coursesStore = tx.objectStore(STORES.courses);
+            const metaStore = tx.objectStore(STORES.meta);
+
+            const version = (await requestToPromise<number | undefined>(metaStore.get(SCHEMA_VERSION_KEY))) ?? 0;
+            let records: unknown[] = await requestToPromise(coursesStore.getAll());
+            const needsMigration = version < DATA_SCHEMA_VERSION;
+            if (needsMigration) {
+                records = runMigrations(records, version, issue => issues.push(issue));
+                metaStore.put(DATA_SCHEMA_VERSION, SCHEMA_VERSION_KEY);
+            }
+
+            // Unreadable records are moved aside instead of breaking the whole library
+            const { valid, corrupt } = partitionRecords(records);
+            if (needsMigration || corrupt.length > 0) {
+                coursesStore.clear();
+                valid.forEach(course => coursesStore.put(course));
+            }
+            corrupt.forEach(({ record, error }) => {
+                tx.objectStore(STORES.corruptRecords).put({ record, error, at: new Date().toISOString() }, randomId());
+            });
+            if (corrupt.length > 0) issues.push('corruptRecords');
+
+            await transactionDone(tx);
+            if (version === 0) retireLegacyStorage();
+            return { courses: valid, issues };
+        },
+
+        async saveCourses(courses) {
+            if (courses.length === 0) return;
+            const db = await openDatabase();
+            const tx = db.transaction(STORES.courses, 'readwrite');
+            courses.forEach(course => tx.objectStore(STORES.courses).put(course));
+            await transactionDone(tx);
+        },
+
+        async deleteCourses(courseIds) {
+            if (courseIds.length === 0) return;
+            const db = await openDatabase();
+            const tx = db.transaction(STORES.courses, 'readwrite');
+            courseIds.forEach(id => tx.objectStore(STORES.courses).delete(id));
+            await transactionDone(tx);
+        },
+    };
+}
+
+// Fallback for browsers where IndexedDB can't be opened (e.g. some private modes):
+// keeps the original single-key localStorage format.
+export function createLocalStorageRepository(): CourseRepository {
+    let cache: Course[] = [];
+    const write = () => localStorage.setItem(LEGACY_STORAGE_KEY, JSON.stringify(cache));
+
+    return {
+        async loadCourses() {
+            const issues: StorageIssue[] = [];
+            let records: unknown[] = [];
+            try {
+                const parsed: unknown = JSON.parse(localStorage.getItem(LEGACY_STORAGE_KEY) ?? '[]');
+                if (Array.isArray(parsed)) records = parsed;
+            } catch {
+                issues.push('corruptStorage'); // Starts with an empty library
+            }
+            const { valid, corrupt } = partitionRecords(runMigrations(records, 1, issue => issues.push(issue)));
+            if (corrupt.length > 0) issues.push('corruptRecords');
+            // The next write replaces the stored value, so what couldn't be read is copied aside first
+            if (issues.length > 0) backupLegacyStorage();
+            cache = valid;
+            return { courses: cache, issues };
+        },
+
+        async saveCourses(courses) {
+            const byId = new Map(courses.map(c => [c.id, c]));
+            cache = [...cache.map(c => byId.get(c.id) ?? c), ...courses.filter(c => !cache.some(x => x.id === c.id))];
+            write();
+        },
+
+        async deleteCourses(courseIds) {
+            cache = cache.filter(c => !courseIds.includes(c.id));
+            write();
+        },
+    };
+}
+
+let libraryPromise: Promise<LoadedCourses & { repository: CourseRepository }> | null = null;
+
+// Opens storage and loads the library once per page, even if several components ask for it
+export function loadLibrary() {
+    if (!libraryPromise) {
+        libraryPromise = (async () => {
+            try {
+                const repository = createIndexedDbRepository();
+                return { repository, ...await repository.loadCourses() };
+            } catch {
+                const repository = createLocalStorageRepository();
+                const { courses, issues } = await repository.loadCourses();
+                return { repository, courses, issues: ['indexedDbUnavailable', ...issues] };
+            }
+        })();
+    }
+    return libraryPromise;
+}
@@ -0,0 +1,99 @@
+import type { Course, Lesson, Module } from '@/lib/types';
+import type { PickedFile } from '@/lib/fileSystemAccess';
+import { getAllModules, mapModuleTree } from '@/lib/courseTree';
+import { randomId } from '@/lib/ids';
+import type { Translate } from '@/lib/i18n';
+
+// Also the path (and id key) of the default module, so it stays as is in stored data
+export const DEFAULT_MODULE_TITLE = 'Geral';
+
+// pathParts: [CourseName, ...ModuleFolders, FileName]. Files at the root go to the default module.
+export function getModulePath(relativePath: string): string[] {
+    const pathParts = relativePath.split('/');
+    return pathParts.length > 2 ? pathParts.slice(1, -1) : [DEFAULT_MODULE_TITLE]; // Subfolders are (nested) modules
+}
+
+// Path without the root folder, so a course keeps matching its files if the root folder is renamed
+export const getPathInCourse = (relativePath: string) => relativePath.split('/').slice(1).join('/');
+
+export const stripExtension = (fileName: string) => fileName.replace(/\.[^/.]+$/, "");
+
+export function createLesson({ file, relativePath }: PickedFile): Lesson {
+    return {
+        id: `less_${randomId()}`,
+        fileKey: relativePath, // Key to link with activeFiles
+        originalName: file.name,
+        title: stripExtension(file.name), // Remove extension for display
+        isCompleted: false,
+        duration: 0,
+        size: file.size
+    };
+}
+
+export const sortLessonsByName = (lessons: Lesson[]) =>
+    [...lessons].sort((a, b) => a.originalName.localeCompare(b.originalName, undefined, { numeric: true }));
+
+const createModule = (title: string, path: string, courseId: string): Module => ({
+    id: path === DEFAULT_MODULE_TITLE ? `mod_general_${courseId}` : `mod_${path}_${courseId}`,
+    title,
+    path,
+    lessons: []
+});
+
+// Modules from older versions have no path; their title was their (single-level) folder name
+export const modulePathOf = (module: Module) => module.path ?? module.title;
+
+// Title to show: the default module is shown in the interface language until it is renamed
+export const getModuleTitle = (module: Module, t: Translate) =>
+    modulePathOf(module) === DEFAULT_MODULE_TITLE && module.title === DEFAULT_MODULE_TITLE ? t('module.general') : module.title;
+
+const appendLesson = (module: Module, lesson: Lesson): Module => {
+    const lessons = [...module.lessons, lesson];
+    return { ...module, lessons: module.hasCustomOrder ? lessons : sortLessonsByName(lessons) };
+};
+
+// Immutable insert of a lesson into the module at modulePath, creating missing folders on the way.
+// A folder module moved elsewhere in the tree by hand is found by its path wherever it now is.
+export function insertLesson(modules: Module[], modulePath: string[], lesson: Lesson, courseId: string, depth = 1): Module[] {
+    if (depth === 1) {
+        const fullPath = modulePath.join('/');
+        const target = getAllModules(modules).find(m => modulePathOf(m) === fullPath);
+        if (target) return mapModuleTree(modules, m => m.id === target.id ? appendLesson(m, lesson) : m);
+    }
+
+    const path = modulePath.slice(0, depth).join('/');
+    const existing = modules.find(m => modulePathOf(m) === path);
+    const module = existing ?? createModule(modulePath[depth - 1], path, courseId);
+
+    const updated: Module = depth === modulePath.length
+        ? appendLesson(module, lesson)
+        : { ...module, modules: insertLesson(module.modules ?? [], modulePath, lesson, courseId, depth + 1) };
+
+    return existing ? modules.map(m => m === existing ? updated : m) : [...modules, updated];
+}
+
+const compareTitles = (a: Module, b: Module) => a.title.localeCompare(b.title, undefined, { numeric: true });
+
+function sortModuleTree(modules: Module[]): Module[] {
+    return [...modules].sort(compareTitles).map(m => m.modules ? { ...m, modules: sortModuleTree(m.modules) } : m);
+}
+
+export function createCourseStructure(courseTitle: string, files: PickedFile[]): Course {
+    const courseId = `course_${randomId()}`;
+
+    // Default module
+    let modules: Module[] = [createModule(DEFAULT_MODULE_TITLE, DEFAULT_MODULE_TITLE, courseId)];
+
+    files.forEach(picked => {
+        modules = insertLesson(modules, getModulePath(picked.relativePath), createLesson(picked), courseId);
+    });
+
+    // Default module first, then folders in natural order at every level
+    const [general, ...folders] = modules;
+    return {
+        id: courseId,
+        title: courseTitle,
+        modules: [general, ...sortModuleTree(folders)],
+        createdAt: new Date().toISOString()
+    };
+}
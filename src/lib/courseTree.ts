@@ -0,0 +1,31 @@
+import type { Course, Lesson, Module } from '@/lib/types';
+
+// Traversal helpers for the module tree. Courses saved before nested modules existed
+// simply have no `modules` on their modules, so everything here treats children as optional.
+
+// A module's own lessons first, then its sub-modules' in order
+export const getModuleLessons = (module: Module): Lesson[] =>
+    [...module.lessons, ...(module.modules ?? []).flatMap(getModuleLessons)];
+
+export const getCourseLessons = (course: Course): Lesson[] => course.modules.flatMap(getModuleLessons);
+
+// Pre-order list of every module in the tree
+export const getAllModules = (modules: Module[]): Module[] =>
+    modules.flatMap(m => [m, ...getAllModules(m.modules ?? [])]);
+
+export const findCourseLesson = (course: Course | undefined, lessonId: string | undefined): Lesson | undefined =>
+    course && lessonId ? getCourseLessons(course).find(l => l.id === lessonId) : undefined;
+
+// Immutable update of every module in the tree (children are mapped before their parent)
+export function mapModuleTree(modules: Module[], update: (module: Module) => Module): Module[] {
+    return modules.map(m => update(m.modules ? { ...m, modules: mapModuleTree(m.modules, update) } : m));
+}
+
+export const mapCourseLessons = (course: Course, update: (lesson: Lesson) => Lesson): Course => ({
+    ...course,
+    modules: mapModuleTree(course.modules, m => ({ ...m, lessons: m.lessons.map(update) }))
+});
+
+// Module that directly holds a lesson
+export const findLessonModule = (course: Course, lessonId: string): Module | undefined =>
+    getAllModules(course.modules).find(m => m.lessons.some(l => l.id === lessonId));
@@ -0,0 +1,85 @@
+// Thin promise wrapper around the app's IndexedDB database
+
+const DB_NAME = 'omniLearn';
+
+export const STORES = {
+    directoryHandles: 'directoryHandles',
+    courses: 'courses',
+    meta: 'meta',
+    corruptRecords: 'corruptRecords',
+    thumbnails: 'thumbnails',
+    studyLog: 'studyLog',
+} as const;
+
+export type StoreName = typeof STORES[keyof typeof STORES];
+
+// Object store layout, one step per database version, applied in order on upgrade.
+// Never edit a released step; append a new one instead.
+const UPGRADES: ((db: IDBDatabase) => void)[] = [
+    // v1: folder handles from the File System Access API, keyed by course id
+    db => db.createObjectStore(STORES.directoryHandles),
+    // v2: courses move out of localStorage, one record per course
+    db => {
+        db.createObjectStore(STORES.courses, { keyPath: 'id' });
+        db.createObjectStore(STORES.meta);
+        db.createObjectStore(STORES.corruptRecords);
+    },
+    // v3: generated lesson thumbnails (JPEG blobs), keyed by file key and size
+    db => db.createObjectStore(STORES.thumbnails),
+    // v4: watched time per lesson per day, keyed by "day|lessonId"
+    db => db.createObjectStore(STORES.studyLog),
+];
+
+const DB_VERSION = UPGRADES.length;
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+export function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+    return new Promise((resolve, reject) => {
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+    });
+}
+
+export function transactionDone(tx: IDBTransaction): Promise<void> {
+    return new Promise((resolve, reject) => {
+        tx.oncomplete = () => resolve();
+        tx.onerror = () => reject(tx.error);
+        tx.onabort = () => reject(tx.error);
+    });
+}
+
+export function openDatabase(): Promise<IDBDatabase> {
+    if (!dbPromise) {
+        dbPromise = new Promise((resolve, reject) => {
+            const request = indexedDB.open(DB_NAME, DB_VERSION);
+            request.onupgradeneeded = (event) => {
+                const db = request.result;
+                for (let version = event.oldVersion; version < DB_VERSION; version++) {
+                    UPGRADES[version](db);
+                }
+            };
+            request.onsuccess = () => resolve(request.result);
+            request.onerror = () => {
+                dbPromise = null;
+                reject(request.error);
+            };
+        });
+    }
+    return dbPromise;
+}
+
+export async function idbGet<T>(store: StoreName, key: IDBValidKey): Promise<T | undefined> {
+    const db = await openDatabase();
+    return requestToPromise(db.transaction(store).objectStore(store).get(key));
+}
+
+export async function idbPut<T>(store: StoreName, key: IDBValidKey, value: T): Promise<void> {
+    const db = await openDatabase();
+    await requestToPromise(db.transaction(store, 'readwrite').objectStore(store).put(value, key));
+}
+
+export async function idbDelete(store: StoreName, key: IDBValidKey): Promise<void> {
+    const db = await openDatabase();
+    await requestToPromise(db.transaction(store, 'readwrite').objectStore(store).delete(key));
+}
@@ -0,0 +1,15 @@
+// Saves a blob (or a File) under the given name through the browser's download
+export function downloadBlob(blob: Blob, fileName: string) {
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = fileName;
+    link.click();
+    // Revoking right away can cancel the download in some browsers
+    setTimeout(() => URL.revokeObjectURL(url), 60_000);
+}
+
+// Saves data as a pretty-printed JSON file
+export function downloadJson(data: unknown, fileName: string) {
+    downloadBlob(new Blob([JSON.stringify(data, null, 2)], { type: 'application/json' }), fileName);
+}
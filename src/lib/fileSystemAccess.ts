@@ -0,0 +1,68 @@
+import { STORES, idbDelete, idbGet, idbPut } from '@/lib/db';
+
+// The File System Access API is Chromium-only, so its types are not part of lib.dom
+declare global {
+    interface Window {
+        showDirectoryPicker?: (options?: { id?: string; mode?: 'read' | 'readwrite' }) => Promise<FileSystemDirectoryHandle>;
+    }
+
+    interface FileSystemDirectoryHandle {
+        values(): AsyncIterableIterator<FileSystemFileHandle | FileSystemDirectoryHandle>;
+        queryPermission(descriptor?: { mode?: 'read' | 'readwrite' }): Promise<PermissionState>;
+        requestPermission(descriptor?: { mode?: 'read' | 'readwrite' }): Promise<PermissionState>;
+    }
+}
+
+// A file picked from disk together with its path relative to the picked folder's parent,
+// i.e. the same shape as File.webkitRelativePath ("Curso/Modulo/aula.mp4")
+export interface PickedFile {
+    file: File;
+    relativePath: string;
+}
+
+export const supportsDirectoryPicker = (): boolean =>
+    typeof window !== 'undefined' && typeof window.showDirectoryPicker === 'function';
+
+export function filesFromInput(files: File[]): PickedFile[] {
+    return files.map(file => ({ file, relativePath: file.webkitRelativePath || file.name }));
+}
+
+// Returns null when the user dismisses the picker
+export async function pickDirectory(): Promise<FileSystemDirectoryHandle | null> {
+    try {
+        return await window.showDirectoryPicker!({ id: 'omniLearn', mode: 'read' });
+    } catch (err) {
+        if (err instanceof DOMException && err.name === 'AbortError') return null;
+        throw err;
+    }
+}
+
+// Chromium forgets the grant between sessions, so it has to be asked again (requires a user gesture)
+export async function ensureReadPermission(handle: FileSystemDirectoryHandle): Promise<boolean> {
+    if (await handle.queryPermission({ mode: 'read' }) === 'granted') return true;
+    return await handle.requestPermission({ mode: 'read' }) === 'granted';
+}
+
+export async function readDirectoryFiles(handle: FileSystemDirectoryHandle, basePath: string = handle.name): Promise<PickedFile[]> {
+    const result: PickedFile[] = [];
+    for await (const entry of handle.values()) {
+        const relativePath = `${basePath}/${entry.name}`;
+        if (entry.kind === 'file') {
+            result.push({ file: await entry.getFile(), relativePath });
+        } else {
+            result.push(...await readDirectoryFiles(entry, relativePath));
+        }
+    }
+    return result;
+}
+
+// --- Persisted handles (one per course) ---
+
+export const saveCourseDirectory = (courseId: string, handle: FileSystemDirectoryHandle) =>
+    idbPut(STORES.directoryHandles, courseId, handle);
+
+export const loadCourseDirectory = (courseId: string) =>
+    idbGet<FileSystemDirectoryHandle>(STORES.directoryHandles, courseId);
+
+export const forgetCourseDirectory = (courseId: string) =>
+    idbDelete(STORES.directoryHandles, courseId);
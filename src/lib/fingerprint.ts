@@ -0,0 +1,76 @@
+import type { Course } from '@/lib/types';
+import type { PickedFile } from '@/lib/fileSystemAccess';
+import { getPathInCourse } from '@/lib/courseStructure';
+import { getCourseLessons } from '@/lib/courseTree';
+
+// Course identity based on content instead of the folder title: the set of video paths
+// (relative to the course root) and their sizes. Renaming the root folder keeps it intact.
+
+interface FileSignature {
+    path: string;
+    size?: number; // Missing on lessons imported before sizes were stored
+}
+
+// cyrb53: small, fast non-cryptographic 53-bit string hash
+function hashString(text: string): string {
+    let h1 = 0xdeadbeef;
+    let h2 = 0x41c6ce57;
+    for (let i = 0; i < text.length; i++) {
+        const ch = text.charCodeAt(i);
+        h1 = Math.imul(h1 ^ ch, 2654435761);
+        h2 = Math.imul(h2 ^ ch, 1597334677);
+    }
+    h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507) ^ Math.imul(h2 ^ (h2 >>> 13), 3266489909);
+    h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507) ^ Math.imul(h1 ^ (h1 >>> 13), 3266489909);
+    return (4294967296 * (2097151 & h2) + (h1 >>> 0)).toString(36);
+}
+
+export const fileSignatures = (files: PickedFile[]): FileSignature[] =>
+    files.map(f => ({ path: getPathInCourse(f.relativePath), size: f.file.size }));
+
+export const courseSignatures = (course: Course): FileSignature[] =>
+    getCourseLessons(course)
+        .filter(l => !l.isMissing)
+        .map(l => ({ path: getPathInCourse(l.fileKey), size: l.size }));
+
+export function computeFingerprint(signatures: FileSignature[]): string {
+    const entries = signatures.map(s => `${s.path}:${s.size ?? ''}`).sort();
+    return hashString(entries.join('\n'));
+}
+
+// Share of files the two sets have in common (0-1), relative to the larger set.
+// Sizes are compared only when both sides know them.
+export function signatureOverlap(a: FileSignature[], b: FileSignature[]): number {
+    if (a.length === 0 || b.length === 0) return 0;
+    const sizesByPath = new Map(b.map(s => [s.path, s.size]));
+    const common = a.filter(s => {
+        if (!sizesByPath.has(s.path)) return false;
+        const size = sizesByPath.get(s.path);
+        return s.size === undefined || size === undefined || s.size === size;
+    }).length;
+    return common / Math.max(a.length, b.length);
+}
+
+export interface CourseMatch {
+    course: Course;
+    overlap: number;
+    isExact: boolean;
+}
+
+// Minimum overlap for a pick to be offered as "the same course"
+const PARTIAL_MATCH_THRESHOLD = 0.3;
+
+export function findMatchingCourse(courses: Course[], files: PickedFile[]): CourseMatch | null {
+    const signatures = fileSignatures(files);
+    const fingerprint = computeFingerprint(signatures);
+
+    let best: CourseMatch | null = null;
+    for (const course of courses) {
+        if (course.fingerprint === fingerprint) return { course, overlap: 1, isExact: true };
+        const overlap = signatureOverlap(signatures, courseSignatures(course));
+        if (overlap >= PARTIAL_MATCH_THRESHOLD && (!best || overlap > best.overlap)) {
+            best = { course, overlap, isExact: overlap === 1 };
+        }
+    }
+    return best;
+}
@@ -0,0 +1,79 @@
+import { ptBR } from '@/lib/messages/pt-BR';
+import { en } from '@/lib/messages/en';
+import { es } from '@/lib/messages/es';
+
+// Interface translation. pt-BR is the source catalog: its keys define MessageKey, and the other
+// catalogs must provide every one of them.
+
+export type Locale = 'pt-BR' | 'en' | 'es';
+
+export const DEFAULT_LOCALE: Locale = 'pt-BR';
+
+// Each language is listed in its own language in the picker
+export const LOCALES: { locale: Locale; label: string }[] = [
+    { locale: 'pt-BR', label: 'Português (Brasil)' },
+    { locale: 'en', label: 'English' },
+    { locale: 'es', label: 'Español' },
+];
+
+// A message is a string with {placeholders}, or one string per plural category of its {n} param
+export type Message = string | ({ other: string } & Partial<Record<Intl.LDMLPluralRule, string>>);
+export type MessageKey = keyof typeof ptBR;
+export type Catalog = Record<MessageKey, Message>;
+export type MessageParams = Record<string, string | number>;
+export type Translate = (key: MessageKey, params?: MessageParams) => string;
+
+const CATALOGS: Record<Locale, Catalog> = { 'pt-BR': ptBR, en, es };
+
+export const isLocale = (value: unknown): value is Locale => LOCALES.some(l => l.locale === value);
+
+// First browser language we have a catalog for, matching by language when the region differs
+export function detectLocale(): Locale {
+    for (const language of navigator.languages ?? [navigator.language]) {
+        if (isLocale(language)) return language;
+        const match = LOCALES.find(l => l.locale.split('-')[0] === language.split('-')[0]);
+        if (match) return match.locale;
+    }
+    return DEFAULT_LOCALE;
+}
+
+export interface I18n {
+    locale: Locale;
+    t: Translate;
+    formatDate: (date: Date, options?: Intl.DateTimeFormatOptions) => string;
+    formatDuration: (seconds: number) => string;
+}
+
+export function createI18n(locale: Locale): I18n {
+    const plurals = new Intl.PluralRules(locale);
+    const numbers = new Intl.NumberFormat(locale);
+
+    const t: Translate = (key, params = {}) => {
+        const message = CATALOGS[locale][key];
+        const template = typeof message === 'string'
+            ? message
+            : message[plurals.select(Number(params.n ?? 0))] ?? message.other;
+        return template.replace(/\{(\w+)\}/g, (placeholder, name: string) => {
+            const value = params[name];
+            if (value === undefined) return placeholder;
+            return typeof value === 'number' ? numbers.format(value) : value;
+        });
+    };
+
+    // Human-readable length for stats, e.g. "2h 05min", "12min" or "40s"
+    const formatDuration = (seconds: number) => {
+        const total = Math.max(0, Math.round(seconds));
+        const h = Math.floor(total / 3600);
+        const m = Math.floor((total % 3600) / 60);
+        if (h > 0) return t('duration.hoursMinutes', { h: String(h), mm: m.toString().padStart(2, '0') });
+        if (m > 0) return t('duration.minutes', { m: String(m) });
+        return t('duration.seconds', { s: String(total) });
+    };
+
+    return {
+        locale,
+        t,
+        formatDate: (date, options = { day: '2-digit', month: 'short', year: 'numeric' }) => date.toLocaleDateString(locale, options),
+        formatDuration,
+    };
+}
@@ -0,0 +1,60 @@
+import type { Course, Module } from '@/lib/types';
+import { getCourseLessons, mapCourseLessons } from '@/lib/courseTree';
+
+// Keeps tabs of the app from overwriting each other. Every saved course is stamped (per lesson
+// and for the rest of the course) and announced to the other tabs, which merge it into their own copy.
+
+export type LibraryMessage =
+    | { type: 'saved'; courses: Course[] }
+    | { type: 'deleted'; courseIds: string[] };
+
+const CHANNEL_NAME = 'omniLearn_library';
+
+// Null where BroadcastChannel is not available; the tab then simply works on its own
+export const openLibraryChannel = () => typeof BroadcastChannel === 'undefined' ? null : new BroadcastChannel(CHANNEL_NAME);
+
+// Everything in a course except lesson contents: titles, module tree and lesson order, course fields
+function courseShape(course: Course): string {
+    const shapeModules = (modules: Module[]): unknown[] => modules.map(({ lessons, modules: children, ...rest }) => ({
+        ...rest,
+        lessonIds: lessons.map(l => l.id),
+        modules: children ? shapeModules(children) : undefined
+    }));
+    const { modules, ...rest } = course;
+    return JSON.stringify({ ...rest, updatedAt: undefined, modules: shapeModules(modules) });
+}
+
+const lessonMap = (course: Course | undefined) => new Map(course ? getCourseLessons(course).map(l => [l.id, l]) : []);
+
+// Stamps what changed between two in-memory versions of a course. Lessons are compared by
+// reference (updates are immutable); unchanged ones keep the stamp they were stored with.
+export function stampChanges(stored: Course | undefined, previous: Course | undefined, next: Course, now: string): Course {
+    if (stored && previous === next) return stored;
+    const previousLessons = lessonMap(previous);
+    const storedLessons = lessonMap(stored);
+    const stamped = mapCourseLessons(next, l => {
+        const updatedAt = previousLessons.get(l.id) === l ? storedLessons.get(l.id)?.updatedAt : now;
+        return l.updatedAt === updatedAt ? l : { ...l, updatedAt };
+    });
+    const isSameShape = !!previous && courseShape(previous) === courseShape(next);
+    return { ...stamped, updatedAt: isSameShape ? stored?.updatedAt : now };
+}
+
+const isNewer = (a: { updatedAt?: string }, b: { updatedAt?: string }) => (a.updatedAt ?? '') > (b.updatedAt ?? '');
+
+// Merges two stamped versions of a course: titles and structure come from the most recently
+// changed one (the remote one on a tie), and each lesson from whichever version changed it last.
+// Returns one of the inputs untouched when it already holds everything newest, so callers can
+// tell whether the merge produced anything the remote side doesn't have.
+export function mergeCourseVersions(local: Course, remote: Course): Course {
+    const [base, other] = isNewer(local, remote) ? [local, remote] : [remote, local];
+    const otherLessons = lessonMap(other);
+    let tookFromOther = false;
+    const merged = mapCourseLessons(base, l => {
+        const candidate = otherLessons.get(l.id);
+        if (!candidate || !isNewer(candidate, l)) return l;
+        tookFromOther = true;
+        return candidate;
+    });
+    return tookFromOther ? merged : base;
+}
@@ -0,0 +1,45 @@
+// Reads a video's duration from its metadata with an off-screen <video>, without decoding frames
+export function readVideoDuration(file: File): Promise<number> {
+    return new Promise((resolve, reject) => {
+        const url = URL.createObjectURL(file);
+        const video = document.createElement('video');
+        video.preload = 'metadata';
+        video.muted = true;
+
+        const cleanup = () => {
+            video.removeAttribute('src');
+            video.load();
+            URL.revokeObjectURL(url);
+        };
+        video.onloadedmetadata = () => {
+            const duration = Number.isFinite(video.duration) ? video.duration : 0;
+            cleanup();
+            resolve(duration);
+        };
+        video.onerror = () => {
+            cleanup();
+            reject(new Error(`Não foi possível ler os metadados de ${file.name}`));
+        };
+        video.src = url;
+    });
+}
+
+const VIDEO_MIME_TYPES: Record<string, string> = {
+    mp4: 'video/mp4',
+    m4v: 'video/mp4',
+    webm: 'video/webm',
+    ogv: 'video/ogg',
+    mkv: 'video/x-matroska',
+    mov: 'video/quicktime',
+    avi: 'video/x-msvideo'
+};
+
+// MIME type for the player's <source>. Browsers report an empty type for some containers (e.g. .mkv),
+// so the extension is used as a fallback. When the browser says it cannot play that type, undefined
+// is returned and it is left to sniff the content, which often works anyway (.mkv with H.264 in Chrome).
+export function getPlayableMimeType(file: File): string | undefined {
+    const extension = file.name.split('.').pop()?.toLowerCase() ?? '';
+    const type = file.type || VIDEO_MIME_TYPES[extension];
+    if (!type) return undefined;
+    return document.createElement('video').canPlayType(type) ? type : undefined;
+}
@@ -0,0 +1,223 @@
+import type { Catalog } from '@/lib/i18n';
+
+export const en: Catalog = {
+    'common.cancel': 'Cancel',
+    'common.dismiss': 'Dismiss',
+
+    'duration.hoursMinutes': '{h}h {mm}min',
+    'duration.minutes': '{m}min',
+    'duration.seconds': '{s}s',
+
+    'import.noVideos': 'No video files were found in this folder.',
+    'import.filesLoaded': 'Files loaded for the course: {title}',
+    'import.folderReadFailed': 'Could not read the selected folder. Check that it still exists and that access was granted.',
+    'import.createFailed': 'Could not create the course from this folder.',
+
+    'library.loading': 'Loading library...',
+    'library.language': 'Language',
+    'library.deletedElsewhere': 'The course "{title}", which was open here, was removed in another tab.',
+    'library.heroTitle': 'Your study hub',
+    'library.heroHighlight': 'straight from your hard drive.',
+    'library.heroDescription': 'Point us to your video folder and we build an organized dashboard for you. Track your progress, rename lessons and organize modules without touching the original files.',
+    'library.addCourse': 'Add New Course',
+    'library.addCourseHint': 'Click to select a folder with videos on your computer',
+    'library.myCourses': 'My Courses',
+    'library.courseCount': { one: '{n} Course', other: '{n} Courses' },
+    'library.empty': 'Your library is empty.',
+
+    'storage.legacyCorrupt': 'The courses saved by an older version were corrupted and were not imported. The original data was kept in the browser.',
+    'storage.corruptRecords': 'Some saved courses were corrupted and were left out of the library.',
+    'storage.corruptStorage': 'The saved library data was corrupted; it was opened empty. The original data was kept in the browser.',
+    'storage.indexedDbUnavailable': 'The browser storage (IndexedDB) is not available. The library will be saved in a limited way and large courses may not fit.',
+    'storage.loadFailed': 'Could not load the library. Changes made now will not be saved.',
+    'storage.saveFailed': 'Could not save the latest library changes. Check the storage space available to the browser.',
+    'storage.studyLogLoadFailed': 'Could not load the study history.',
+    'storage.studyLogSaveFailed': 'Could not save the study time.',
+
+    'course.defaultTitle': 'New Course',
+    'course.folderNeeded': 'Make sure you have selected this course\'s folder in this session to enable the player.',
+    'course.confirmDelete': 'Are you sure you want to remove this course from the list? Its progress will be lost.',
+    'course.lessonCount': { one: '{n} lesson', other: '{n} lessons' },
+    'course.completedCount': { one: '{n} completed', other: '{n} completed' },
+    'course.watched': 'Watched: {duration}',
+    'course.durationRemaining': '{total} · {remaining} left',
+    'course.resume': 'Continue where I left off: {title}',
+    'course.delete': 'Remove course',
+    'course.close': 'Back to library',
+    'course.relinkFolder': 'Relink folder (if needed)',
+
+    'courseMatch.title': 'Similar course found',
+    'courseMatch.description': 'The folder {folder} shares {percent}% of its files with the course {course}. Do you want to link the folder to that course, keeping its progress, or create a new course?',
+    'courseMatch.create': 'Create new course',
+    'courseMatch.link': 'Link to existing course',
+
+    'sync.title': 'Sync folder',
+    'sync.description': 'The folder of {course} changed on disk. Review the changes before applying them.',
+    'sync.added': 'New lessons',
+    'sync.relinked': 'Renamed or moved files',
+    'sync.removed': 'Lessons without a file',
+    'sync.removedHint': 'These lessons will be marked as removed from disk; progress and notes are kept.',
+    'sync.keep': 'Keep as is',
+    'sync.apply': 'Apply changes',
+
+    'backup.libraryFileName': 'library',
+    'backup.exportLibrary': 'Export library',
+    'backup.exportCourse': 'Export course',
+    'backup.import': 'Import backup',
+    'backup.contains': { one: 'The file contains {n} course.', other: 'The file contains {n} courses.' },
+    'backup.containsExportedAt': { one: 'The file contains {n} course, exported on {date}.', other: 'The file contains {n} courses, exported on {date}.' },
+    'backup.merge': 'Merge',
+    'backup.mergeHint': 'combines the progress with your current courses.',
+    'backup.replace': 'Replace',
+    'backup.replaceHint': 'erases the current library and keeps only the backup.',
+    'backup.importFailed': 'Could not import the backup: {reason}',
+    'backup.readFailed': 'Could not read the backup file.',
+    'backup.error.invalidJson': 'The file is not valid JSON.',
+    'backup.error.notABackup': 'The file is not an OmniLearn backup.',
+    'backup.error.missingVersion': 'The backup does not state its format version.',
+    'backup.error.newerVersion': 'The backup was created by a newer version of the app. Please update the app.',
+    'backup.error.missingCourses': 'The backup does not contain the list of courses.',
+    'backup.error.invalidCourse': 'Invalid course ({detail})',
+    'validation.invalidField': 'the field "{path}" is missing or invalid',
+    'validation.notAList': 'the field "{path}" should be a list',
+
+    'manifest.export': 'Export structure (course.json)',
+    'manifest.ignored': 'The course.json file was ignored and the structure was built from the folders: {reason}',
+    'manifest.readFailed': 'The file could not be read.',
+    'manifest.error.invalidJson': 'The file is not valid JSON.',
+    'manifest.error.notAnObject': 'The file should contain an object with "title" and "modules".',
+    'manifest.error.invalidField': 'The field "{detail}" is missing or invalid.',
+    'manifest.error.unknownFile': 'The video "{detail}" was not found in the course folder.',
+    'manifest.error.duplicateFile': 'The video "{detail}" is listed more than once.',
+
+    'player.fileNotFound': 'Video file not found in the current session. Please select the course folder again.',
+    'player.unsupported': 'Your browser does not support the video tag.',
+    'player.nextIn': 'Next lesson in {n}s',
+    'player.playNow': 'Play now',
+    'player.previous': 'Previous',
+    'player.next': 'Next',
+    'player.selectLesson': 'Select a lesson in the sidebar to get started',
+
+    'controls.previousLesson': 'Previous lesson (P)',
+    'controls.nextLesson': 'Next lesson (N)',
+    'controls.play': 'Play (space or K)',
+    'controls.pause': 'Pause (space or K)',
+    'controls.previousFrame': 'Previous frame (,)',
+    'controls.nextFrame': 'Next frame (.)',
+    'controls.mute': 'Mute',
+    'controls.unmute': 'Unmute',
+    'controls.addBookmark': 'Add bookmark (B)',
+    'controls.loopStart': 'Loop section: set start (A)',
+    'controls.loopEnd': 'Loop section: set end (B)',
+    'controls.loopOff': 'Turn off loop',
+    'controls.speed': 'Speed (< and >)',
+    'controls.markComplete': 'Mark as completed (M)',
+    'controls.fullscreen': 'Fullscreen (F)',
+
+    'bookmark.namePrompt': 'Bookmark name:',
+    'bookmark.defaultName': 'Bookmark at {time}',
+    'bookmark.delete': 'Remove bookmark',
+
+    'subtitles.defaultLabel': 'Subtitles',
+    'subtitles.readFailed': 'Could not read the subtitle file.',
+    'subtitles.off': 'No subtitles',
+    'subtitles.load': 'Load subtitles',
+
+    'module.newTitle': 'New module',
+    'module.general': 'General',
+    'module.create': 'New module',
+    'module.rename': 'Rename module',
+    'module.deleteEmpty': 'Remove empty module',
+    'module.dropInside': 'Drop inside {title}',
+    'module.dropAtEnd': 'Drop at the end of the course',
+    'module.watchedOfTotal': '{watched} of {total}',
+
+    'lesson.available': 'Available',
+    'lesson.removedFromDisk': 'Removed from disk',
+    'lesson.fileMissing': 'File Missing',
+    'lesson.show': 'Show lesson',
+    'lesson.hide': 'Hide lesson (not counted in progress)',
+    'lesson.markComplete': 'Mark as completed',
+    'lesson.markIncomplete': 'Mark as not completed',
+    'lesson.rename': 'Rename lesson',
+    'lesson.hideHidden': 'Hide hidden lessons',
+    'lesson.showHidden': 'Show hidden lessons ({n})',
+
+    'attachments.title': 'Materials',
+    'attachments.fromModule': 'From the module',
+    'attachments.loading': 'Loading...',
+    'attachments.readFailed': 'Could not read this file.',
+    'attachments.truncated': '(file truncated in the preview)',
+    'attachments.linkUnreadable': 'Could not read the address of this shortcut.',
+    'attachments.missing': 'File Missing',
+    'attachments.openInNewTab': 'Open in a new tab',
+    'attachments.download': 'Download',
+
+    'search.button': 'Search',
+    'search.shortcutHint': 'Search (Ctrl+K)',
+    'search.placeholder': 'Search lessons, modules, notes and subtitles...',
+    'search.noResults': 'No results for "{query}".',
+
+    'settings.title': 'Playback preferences',
+    'settings.autoComplete': 'Complete lessons automatically',
+    'settings.autoCompleteOff': 'Off',
+    'settings.autoCompleteAt': 'After watching {percent}%',
+    'settings.autoplayNext': 'Play the next lesson when finished',
+    'settings.reviewMode': 'Review mode (spaced repetition)',
+    'settings.reviewModeHint': 'Completed lessons and flagged notes or bookmarks come back for review at growing intervals',
+
+    'progress.title': 'Course Progress',
+    'progress.toggleMode': 'Switch progress between number of lessons and video time',
+    'progress.percentOfLessons': '{percent}% of lessons',
+    'progress.percentOfTime': '{percent}% of time',
+    'progress.total': 'Total {duration}',
+    'progress.watched': 'Watched {duration}',
+    'progress.remaining': 'Remaining {duration}',
+
+    'sidebar.hide': 'Hide sidebar',
+    'sidebar.show': 'Show sidebar',
+
+    'notes.title': 'Lesson Notes',
+    'notes.placeholder': 'Write your notes here...',
+    'notes.timedPlaceholder': 'Quick note at this moment of the video...',
+    'notes.addAtCurrentTime': 'Note at current time',
+    'notes.delete': 'Remove note',
+
+    'deepLink.startingAt': 'starting at {time}',
+    'deepLink.folderNeeded': 'The video for this lesson is in a folder on your computer that has not been opened in this session yet. Link the course folder to continue where the link points.',
+    'deepLink.openFolder': 'Open course folder',
+    'deepLink.useSidebar': 'Use "Relink folder" in the sidebar and select the course folder.',
+
+    'dashboard.activity': 'Activity',
+    'dashboard.noStudy': 'no study',
+    'dashboard.todayGoal': 'Today\'s goal',
+    'dashboard.goalProgress': '{studied} of {goal} min',
+    'dashboard.goalInput': 'Daily goal in minutes',
+    'dashboard.currentStreak': { one: 'day in a row', other: 'days in a row' },
+    'dashboard.longestStreak': 'longest streak',
+    'dashboard.completedThisWeek': 'completed in 7 days',
+    'dashboard.timePerCourse': 'Time per course',
+    'dashboard.total': 'Total: {duration}',
+    'dashboard.lastWeek': 'Last 7 days: {duration}',
+    'dashboard.finished': 'Completed',
+    'dashboard.finishEstimate': 'Estimate: {date}',
+    'dashboard.noRecentPace': 'No recent pace',
+
+    'review.title': 'Review today',
+    'review.itemCount': { one: '{n} item', other: '{n} items' },
+    'review.empty': 'Nothing to review today. Completed lessons and sections flagged for review show up here when they are due.',
+    'review.kind.lesson': 'Lesson',
+    'review.kind.note': 'Note',
+    'review.kind.bookmark': 'Bookmark',
+    'review.again': 'Forgot',
+    'review.hard': 'Hard',
+    'review.good': 'Good',
+    'review.easy': 'Easy',
+    'review.intervalDays': { one: '{n} day', other: '{n} days' },
+    'review.intervalMonths': { one: '{n} month', other: '{n} months' },
+    'review.folderNeeded': 'Open the course folder in this session to play the section.',
+    'review.openLesson': 'Watch the lesson again',
+    'review.openAtTime': 'Open the lesson at this point',
+    'review.flag': 'Flag for review',
+    'review.unflag': 'Remove from review',
+};
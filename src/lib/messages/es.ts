@@ -0,0 +1,223 @@
+import type { Catalog } from '@/lib/i18n';
+
+export const es: Catalog = {
+    'common.cancel': 'Cancelar',
+    'common.dismiss': 'Cerrar aviso',
+
+    'duration.hoursMinutes': '{h}h {mm}min',
+    'duration.minutes': '{m}min',
+    'duration.seconds': '{s}s',
+
+    'import.noVideos': 'No se encontró ningún archivo de video en esta carpeta.',
+    'import.filesLoaded': 'Archivos cargados para el curso: {title}',
+    'import.folderReadFailed': 'No se pudo leer la carpeta seleccionada. Comprueba que todavía existe y que se permitió el acceso.',
+    'import.createFailed': 'No se pudo crear el curso a partir de esta carpeta.',
+
+    'library.loading': 'Cargando biblioteca...',
+    'library.language': 'Idioma',
+    'library.deletedElsewhere': 'El curso "{title}", que estaba abierto aquí, fue eliminado en otra pestaña.',
+    'library.heroTitle': 'Tu centro de estudios',
+    'library.heroHighlight': 'directo desde el disco duro.',
+    'library.heroDescription': 'Indica la carpeta de tus videos y creamos un panel organizado para ti. Sigue tu progreso, renombra clases y organiza módulos sin modificar los archivos originales.',
+    'library.addCourse': 'Agregar Nuevo Curso',
+    'library.addCourseHint': 'Haz clic para seleccionar una carpeta con videos en tu computadora',
+    'library.myCourses': 'Mis Cursos',
+    'library.courseCount': { one: '{n} Curso', other: '{n} Cursos' },
+    'library.empty': 'Tu biblioteca está vacía.',
+
+    'storage.legacyCorrupt': 'Los cursos guardados por una versión antigua estaban dañados y no se importaron. Los datos originales se conservaron en el navegador.',
+    'storage.corruptRecords': 'Algunos cursos guardados estaban dañados y se dejaron fuera de la biblioteca.',
+    'storage.corruptStorage': 'Los datos guardados de la biblioteca estaban dañados; se abrió vacía. Los datos originales se conservaron en el navegador.',
+    'storage.indexedDbUnavailable': 'El almacenamiento del navegador (IndexedDB) no está disponible. La biblioteca se guarda de forma limitada y puede que los cursos grandes no quepan.',
+    'storage.loadFailed': 'No se pudo cargar la biblioteca. Los cambios hechos ahora no se guardarán.',
+    'storage.saveFailed': 'No se pudieron guardar los últimos cambios de la biblioteca. Comprueba el espacio disponible en el navegador.',
+    'storage.studyLogLoadFailed': 'No se pudo cargar el historial de estudio.',
+    'storage.studyLogSaveFailed': 'No se pudo guardar el tiempo de estudio.',
+
+    'course.defaultTitle': 'Nuevo Curso',
+    'course.folderNeeded': 'Asegúrate de haber seleccionado la carpeta de este curso en esta sesión para habilitar el reproductor.',
+    'course.confirmDelete': '¿Seguro que quieres quitar este curso de la lista? Se perderá el progreso.',
+    'course.lessonCount': { one: '{n} clase', other: '{n} clases' },
+    'course.completedCount': { one: '{n} completada', other: '{n} completadas' },
+    'course.watched': 'Visto: {duration}',
+    'course.durationRemaining': '{total} · faltan {remaining}',
+    'course.resume': 'Continuar donde lo dejé: {title}',
+    'course.delete': 'Quitar curso',
+    'course.close': 'Volver a la biblioteca',
+    'course.relinkFolder': 'Volver a vincular carpeta (si es necesario)',
+
+    'courseMatch.title': 'Se encontró un curso parecido',
+    'courseMatch.description': 'La carpeta {folder} tiene un {percent}% de los archivos en común con el curso {course}. ¿Quieres vincular la carpeta a ese curso, manteniendo el progreso, o crear un curso nuevo?',
+    'courseMatch.create': 'Crear curso nuevo',
+    'courseMatch.link': 'Vincular al curso existente',
+
+    'sync.title': 'Sincronizar carpeta',
+    'sync.description': 'La carpeta de {course} cambió en el disco. Revisa los cambios antes de aplicarlos.',
+    'sync.added': 'Clases nuevas',
+    'sync.relinked': 'Archivos renombrados o movidos',
+    'sync.removed': 'Clases sin archivo',
+    'sync.removedHint': 'Estas clases se marcarán como eliminadas del disco; se conservan el progreso y las notas.',
+    'sync.keep': 'Dejar como está',
+    'sync.apply': 'Aplicar cambios',
+
+    'backup.libraryFileName': 'biblioteca',
+    'backup.exportLibrary': 'Exportar biblioteca',
+    'backup.exportCourse': 'Exportar curso',
+    'backup.import': 'Importar copia de seguridad',
+    'backup.contains': { one: 'El archivo contiene {n} curso.', other: 'El archivo contiene {n} cursos.' },
+    'backup.containsExportedAt': { one: 'El archivo contiene {n} curso, exportado el {date}.', other: 'El archivo contiene {n} cursos, exportados el {date}.' },
+    'backup.merge': 'Combinar',
+    'backup.mergeHint': 'une el progreso con los cursos actuales.',
+    'backup.replace': 'Reemplazar',
+    'backup.replaceHint': 'borra la biblioteca actual y usa solo la copia de seguridad.',
+    'backup.importFailed': 'No se pudo importar la copia de seguridad: {reason}',
+    'backup.readFailed': 'No se pudo leer el archivo de la copia de seguridad.',
+    'backup.error.invalidJson': 'El archivo no es un JSON válido.',
+    'backup.error.notABackup': 'El archivo no es una copia de seguridad de OmniLearn.',
+    'backup.error.missingVersion': 'La copia de seguridad no indica la versión del formato.',
+    'backup.error.newerVersion': 'La copia de seguridad fue creada por una versión más nueva de la aplicación. Actualiza la aplicación.',
+    'backup.error.missingCourses': 'La copia de seguridad no contiene la lista de cursos.',
+    'backup.error.invalidCourse': 'Curso no válido ({detail})',
+    'validation.invalidField': 'el campo "{path}" falta o no es válido',
+    'validation.notAList': 'el campo "{path}" debería ser una lista',
+
+    'manifest.export': 'Exportar estructura (course.json)',
+    'manifest.ignored': 'Se ignoró el archivo course.json y la estructura se generó a partir de las carpetas: {reason}',
+    'manifest.readFailed': 'No se pudo leer el archivo.',
+    'manifest.error.invalidJson': 'El archivo no es un JSON válido.',
+    'manifest.error.notAnObject': 'El archivo debería contener un objeto con "title" y "modules".',
+    'manifest.error.invalidField': 'El campo "{detail}" falta o no es válido.',
+    'manifest.error.unknownFile': 'No se encontró el video "{detail}" en la carpeta del curso.',
+    'manifest.error.duplicateFile': 'El video "{detail}" aparece más de una vez.',
+
+    'player.fileNotFound': 'No se encontró el archivo de video en la sesión actual. Selecciona de nuevo la carpeta del curso.',
+    'player.unsupported': 'Tu navegador no es compatible con la etiqueta de video.',
+    'player.nextIn': 'Siguiente clase en {n}s',
+    'player.playNow': 'Reproducir ahora',
+    'player.previous': 'Anterior',
+    'player.next': 'Siguiente',
+    'player.selectLesson': 'Selecciona una clase en la barra lateral para empezar',
+
+    'controls.previousLesson': 'Clase anterior (P)',
+    'controls.nextLesson': 'Siguiente clase (N)',
+    'controls.play': 'Reproducir (espacio o K)',
+    'controls.pause': 'Pausar (espacio o K)',
+    'controls.previousFrame': 'Fotograma anterior (,)',
+    'controls.nextFrame': 'Fotograma siguiente (.)',
+    'controls.mute': 'Silenciar',
+    'controls.unmute': 'Activar sonido',
+    'controls.addBookmark': 'Agregar marcador (B)',
+    'controls.loopStart': 'Repetir tramo: marcar inicio (A)',
+    'controls.loopEnd': 'Repetir tramo: marcar fin (B)',
+    'controls.loopOff': 'Desactivar repetición',
+    'controls.speed': 'Velocidad (< y >)',
+    'controls.markComplete': 'Marcar como completada (M)',
+    'controls.fullscreen': 'Pantalla completa (F)',
+
+    'bookmark.namePrompt': 'Nombre del marcador:',
+    'bookmark.defaultName': 'Marcador en {time}',
+    'bookmark.delete': 'Quitar marcador',
+
+    'subtitles.defaultLabel': 'Subtítulos',
+    'subtitles.readFailed': 'No se pudo leer el archivo de subtítulos.',
+    'subtitles.off': 'Sin subtítulos',
+    'subtitles.load': 'Cargar subtítulos',
+
+    'module.newTitle': 'Nuevo módulo',
+    'module.general': 'General',
+    'module.create': 'Nuevo módulo',
+    'module.rename': 'Renombrar módulo',
+    'module.deleteEmpty': 'Quitar módulo vacío',
+    'module.dropInside': 'Soltar dentro de {title}',
+    'module.dropAtEnd': 'Soltar al final del curso',
+    'module.watchedOfTotal': '{watched} de {total}',
+
+    'lesson.available': 'Disponible',
+    'lesson.removedFromDisk': 'Eliminado del disco',
+    'lesson.fileMissing': 'Archivo Ausente',
+    'lesson.show': 'Mostrar clase',
+    'lesson.hide': 'Ocultar clase (no cuenta en el progreso)',
+    'lesson.markComplete': 'Marcar como completada',
+    'lesson.markIncomplete': 'Marcar como no completada',
+    'lesson.rename': 'Renombrar clase',
+    'lesson.hideHidden': 'Esconder ocultas',
+    'lesson.showHidden': 'Mostrar ocultas ({n})',
+
+    'attachments.title': 'Materiales',
+    'attachments.fromModule': 'Del módulo',
+    'attachments.loading': 'Cargando...',
+    'attachments.readFailed': 'No se pudo leer este archivo.',
+    'attachments.truncated': '(archivo truncado en la vista previa)',
+    'attachments.linkUnreadable': 'No se pudo leer la dirección de este acceso directo.',
+    'attachments.missing': 'Archivo Ausente',
+    'attachments.openInNewTab': 'Abrir en una pestaña nueva',
+    'attachments.download': 'Descargar',
+
+    'search.button': 'Buscar',
+    'search.shortcutHint': 'Buscar (Ctrl+K)',
+    'search.placeholder': 'Buscar clases, módulos, notas y subtítulos...',
+    'search.noResults': 'No hay resultados para "{query}".',
+
+    'settings.title': 'Preferencias de reproducción',
+    'settings.autoComplete': 'Completar clase automáticamente',
+    'settings.autoCompleteOff': 'Desactivado',
+    'settings.autoCompleteAt': 'Al ver el {percent}%',
+    'settings.autoplayNext': 'Reproducir la siguiente clase al terminar',
+    'settings.reviewMode': 'Modo de repaso (repetición espaciada)',
+    'settings.reviewModeHint': 'Las clases completadas y las notas o marcadores señalados vuelven para repaso en intervalos crecientes',
+
+    'progress.title': 'Progreso del Curso',
+    'progress.toggleMode': 'Alternar el cálculo del progreso entre número de clases y tiempo de video',
+    'progress.percentOfLessons': '{percent}% de las clases',
+    'progress.percentOfTime': '{percent}% del tiempo',
+    'progress.total': 'Total {duration}',
+    'progress.watched': 'Visto {duration}',
+    'progress.remaining': 'Restante {duration}',
+
+    'sidebar.hide': 'Esconder barra lateral',
+    'sidebar.show': 'Mostrar barra lateral',
+
+    'notes.title': 'Notas de la Clase',
+    'notes.placeholder': 'Escribe tus notas aquí...',
+    'notes.timedPlaceholder': 'Nota rápida en este momento del video...',
+    'notes.addAtCurrentTime': 'Anotar en el tiempo actual',
+    'notes.delete': 'Quitar nota',
+
+    'deepLink.startingAt': 'desde {time}',
+    'deepLink.folderNeeded': 'El video de esta clase está en una carpeta de tu computadora que todavía no se abrió en esta sesión. Vincula la carpeta del curso para continuar donde apunta el enlace.',
+    'deepLink.openFolder': 'Abrir carpeta del curso',
+    'deepLink.useSidebar': 'Usa "Volver a vincular carpeta" en la barra lateral y selecciona la carpeta del curso.',
+
+    'dashboard.activity': 'Actividad',
+    'dashboard.noStudy': 'sin estudio',
+    'dashboard.todayGoal': 'Meta de hoy',
+    'dashboard.goalProgress': '{studied} de {goal} min',
+    'dashboard.goalInput': 'Meta diaria en minutos',
+    'dashboard.currentStreak': { one: 'día seguido', other: 'días seguidos' },
+    'dashboard.longestStreak': 'racha más larga',
+    'dashboard.completedThisWeek': 'completadas en 7 días',
+    'dashboard.timePerCourse': 'Tiempo por curso',
+    'dashboard.total': 'Total: {duration}',
+    'dashboard.lastWeek': 'Últimos 7 días: {duration}',
+    'dashboard.finished': 'Completado',
+    'dashboard.finishEstimate': 'Previsión: {date}',
+    'dashboard.noRecentPace': 'Sin ritmo reciente',
+
+    'review.title': 'Repasar hoy',
+    'review.itemCount': { one: '{n} elemento', other: '{n} elementos' },
+    'review.empty': 'Nada que repasar hoy. Las clases completadas y los tramos señalados para repaso aparecen aquí cuando llega el momento.',
+    'review.kind.lesson': 'Clase',
+    'review.kind.note': 'Nota',
+    'review.kind.bookmark': 'Marcador',
+    'review.again': 'Olvidé',
+    'review.hard': 'Difícil',
+    'review.good': 'Bien',
+    'review.easy': 'Fácil',
+    'review.intervalDays': { one: '{n} día', other: '{n} días' },
+    'review.intervalMonths': { one: '{n} mes', other: '{n} meses' },
+    'review.folderNeeded': 'Abre la carpeta del curso en esta sesión para reproducir el tramo.',
+    'review.openLesson': 'Volver a ver la clase',
+    'review.openAtTime': 'Abrir la clase en este punto',
+    'review.flag': 'Señalar para repaso',
+    'review.unflag': 'Quitar del repaso',
+};
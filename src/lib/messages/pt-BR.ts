@@ -0,0 +1,222 @@
+// Source catalog: every message key is declared here first. Plural messages pick a form from their {n} param.
+export const ptBR = {
+    'common.cancel': 'Cancelar',
+    'common.dismiss': 'Fechar aviso',
+
+    'duration.hoursMinutes': '{h}h {mm}min',
+    'duration.minutes': '{m}min',
+    'duration.seconds': '{s}s',
+
+    'import.noVideos': 'Nenhum arquivo de vídeo encontrado nesta pasta.',
+    'import.filesLoaded': 'Arquivos carregados para o curso: {title}',
+    'import.folderReadFailed': 'Não foi possível ler a pasta selecionada. Verifique se ela ainda existe e se o acesso foi permitido.',
+    'import.createFailed': 'Não foi possível criar o curso a partir desta pasta.',
+
+    'library.loading': 'Carregando biblioteca...',
+    'library.language': 'Idioma',
+    'library.deletedElsewhere': 'O curso "{title}", que estava aberto aqui, foi removido em outra aba.',
+    'library.heroTitle': 'Sua central de estudos',
+    'library.heroHighlight': 'direto do disco rígido.',
+    'library.heroDescription': 'Aponte a pasta dos seus vídeos e nós criamos uma dashboard organizada para você. Acompanhe seu progresso, renomeie aulas e organize módulos sem alterar os arquivos originais.',
+    'library.addCourse': 'Adicionar Novo Curso',
+    'library.addCourseHint': 'Clique para selecionar uma pasta com vídeos no seu computador',
+    'library.myCourses': 'Meus Cursos',
+    'library.courseCount': { one: '{n} Curso', other: '{n} Cursos' },
+    'library.empty': 'Sua biblioteca está vazia.',
+
+    'storage.legacyCorrupt': 'Os cursos salvos por uma versão antiga estavam corrompidos e não foram importados. Os dados originais foram guardados no navegador.',
+    'storage.corruptRecords': 'Alguns cursos salvos estavam corrompidos e foram deixados de fora da biblioteca.',
+    'storage.corruptStorage': 'Os dados salvos da biblioteca estavam corrompidos; ela foi aberta vazia. Os dados originais foram guardados no navegador.',
+    'storage.indexedDbUnavailable': 'O armazenamento do navegador (IndexedDB) não está disponível. A biblioteca será salva de forma limitada e cursos grandes podem não caber.',
+    'storage.loadFailed': 'Não foi possível carregar a biblioteca. As alterações feitas agora não serão salvas.',
+    'storage.saveFailed': 'Não foi possível salvar as últimas alterações da biblioteca. Verifique o espaço disponível no navegador.',
+    'storage.studyLogLoadFailed': 'Não foi possível carregar o histórico de estudos.',
+    'storage.studyLogSaveFailed': 'Não foi possível salvar o tempo de estudo.',
+
+    'course.defaultTitle': 'Novo Curso',
+    'course.folderNeeded': 'Certifique-se de ter selecionado a pasta deste curso nesta sessão para habilitar o player.',
+    'course.confirmDelete': 'Tem certeza que deseja remover este curso da lista? O progresso será perdido.',
+    'course.lessonCount': { one: '{n} aula', other: '{n} aulas' },
+    'course.completedCount': { one: '{n} concluída', other: '{n} concluídas' },
+    'course.watched': 'Assistido: {duration}',
+    'course.durationRemaining': '{total} · faltam {remaining}',
+    'course.resume': 'Continuar de onde parei: {title}',
+    'course.delete': 'Remover curso',
+    'course.close': 'Voltar à biblioteca',
+    'course.relinkFolder': 'Re-vincular pasta (se necessário)',
+
+    'courseMatch.title': 'Curso parecido encontrado',
+    'courseMatch.description': 'A pasta {folder} tem {percent}% dos arquivos em comum com o curso {course}. Deseja vincular a pasta a esse curso, mantendo o progresso, ou criar um curso novo?',
+    'courseMatch.create': 'Criar novo curso',
+    'courseMatch.link': 'Vincular ao curso existente',
+
+    'sync.title': 'Sincronizar pasta',
+    'sync.description': 'A pasta de {course} mudou no disco. Revise as alterações antes de aplicá-las.',
+    'sync.added': 'Novas aulas',
+    'sync.relinked': 'Arquivos renomeados ou movidos',
+    'sync.removed': 'Aulas sem arquivo',
+    'sync.removedHint': 'Essas aulas serão marcadas como removidas do disco; progresso e anotações são mantidos.',
+    'sync.keep': 'Manter como está',
+    'sync.apply': 'Aplicar alterações',
+
+    'backup.libraryFileName': 'biblioteca',
+    'backup.exportLibrary': 'Exportar biblioteca',
+    'backup.exportCourse': 'Exportar curso',
+    'backup.import': 'Importar backup',
+    'backup.contains': { one: 'O arquivo contém {n} curso.', other: 'O arquivo contém {n} cursos.' },
+    'backup.containsExportedAt': { one: 'O arquivo contém {n} curso, exportado em {date}.', other: 'O arquivo contém {n} cursos, exportados em {date}.' },
+    'backup.merge': 'Mesclar',
+    'backup.mergeHint': 'combina o progresso com os cursos atuais.',
+    'backup.replace': 'Substituir',
+    'backup.replaceHint': 'apaga a biblioteca atual e usa apenas o backup.',
+    'backup.importFailed': 'Não foi possível importar o backup: {reason}',
+    'backup.readFailed': 'Não foi possível ler o arquivo de backup.',
+    'backup.error.invalidJson': 'O arquivo não é um JSON válido.',
+    'backup.error.notABackup': 'O arquivo não é um backup do OmniLearn.',
+    'backup.error.missingVersion': 'O backup não informa a versão do formato.',
+    'backup.error.newerVersion': 'O backup foi criado por uma versão mais nova do aplicativo. Atualize o aplicativo.',
+    'backup.error.missingCourses': 'O backup não contém a lista de cursos.',
+    'backup.error.invalidCourse': 'Curso inválido ({detail})',
+    'validation.invalidField': 'o campo "{path}" está ausente ou é inválido',
+    'validation.notAList': 'o campo "{path}" deveria ser uma lista',
+
+    'manifest.export': 'Exportar estrutura (course.json)',
+    'manifest.ignored': 'O arquivo course.json foi ignorado e a estrutura foi gerada a partir das pastas: {reason}',
+    'manifest.readFailed': 'Não foi possível ler o arquivo.',
+    'manifest.error.invalidJson': 'O arquivo não é um JSON válido.',
+    'manifest.error.notAnObject': 'O arquivo deveria conter um objeto com "title" e "modules".',
+    'manifest.error.invalidField': 'O campo "{detail}" está ausente ou é inválido.',
+    'manifest.error.unknownFile': 'O vídeo "{detail}" não foi encontrado na pasta do curso.',
+    'manifest.error.duplicateFile': 'O vídeo "{detail}" aparece mais de uma vez.',
+
+    'player.fileNotFound': 'Arquivo de vídeo não encontrado na sessão atual. Por favor, selecione a pasta do curso novamente.',
+    'player.unsupported': 'Seu navegador não suporta a tag de vídeo.',
+    'player.nextIn': 'Próxima aula em {n}s',
+    'player.playNow': 'Reproduzir agora',
+    'player.previous': 'Anterior',
+    'player.next': 'Próxima',
+    'player.selectLesson': 'Selecione uma aula na barra lateral para começar',
+
+    'controls.previousLesson': 'Aula anterior (P)',
+    'controls.nextLesson': 'Próxima aula (N)',
+    'controls.play': 'Reproduzir (espaço ou K)',
+    'controls.pause': 'Pausar (espaço ou K)',
+    'controls.previousFrame': 'Quadro anterior (,)',
+    'controls.nextFrame': 'Próximo quadro (.)',
+    'controls.mute': 'Silenciar',
+    'controls.unmute': 'Ativar som',
+    'controls.addBookmark': 'Adicionar marcador (B)',
+    'controls.loopStart': 'Repetir trecho: marcar início (A)',
+    'controls.loopEnd': 'Repetir trecho: marcar fim (B)',
+    'controls.loopOff': 'Desativar repetição',
+    'controls.speed': 'Velocidade (< e >)',
+    'controls.markComplete': 'Marcar como concluída (M)',
+    'controls.fullscreen': 'Tela cheia (F)',
+
+    'bookmark.namePrompt': 'Nome do marcador:',
+    'bookmark.defaultName': 'Marcador em {time}',
+    'bookmark.delete': 'Remover marcador',
+
+    'subtitles.defaultLabel': 'Legenda',
+    'subtitles.readFailed': 'Não foi possível ler o arquivo de legenda.',
+    'subtitles.off': 'Sem legenda',
+    'subtitles.load': 'Carregar legenda',
+
+    'module.newTitle': 'Novo módulo',
+    'module.general': 'Geral',
+    'module.create': 'Novo módulo',
+    'module.rename': 'Renomear módulo',
+    'module.deleteEmpty': 'Remover módulo vazio',
+    'module.dropInside': 'Soltar dentro de {title}',
+    'module.dropAtEnd': 'Soltar no fim do curso',
+    'module.watchedOfTotal': '{watched} de {total}',
+
+    'lesson.available': 'Disponível',
+    'lesson.removedFromDisk': 'Removido do disco',
+    'lesson.fileMissing': 'Arquivo Ausente',
+    'lesson.show': 'Mostrar aula',
+    'lesson.hide': 'Ocultar aula (não conta no progresso)',
+    'lesson.markComplete': 'Marcar como concluída',
+    'lesson.markIncomplete': 'Marcar como não concluída',
+    'lesson.rename': 'Renomear aula',
+    'lesson.hideHidden': 'Esconder ocultas',
+    'lesson.showHidden': 'Mostrar ocultas ({n})',
+
+    'attachments.title': 'Materiais',
+    'attachments.fromModule': 'Do módulo',
+    'attachments.loading': 'Carregando...',
+    'attachments.readFailed': 'Não foi possível ler este arquivo.',
+    'attachments.truncated': '(arquivo truncado na pré-visualização)',
+    'attachments.linkUnreadable': 'Não foi possível ler o endereço deste atalho.',
+    'attachments.missing': 'Arquivo Ausente',
+    'attachments.openInNewTab': 'Abrir em nova aba',
+    'attachments.download': 'Baixar',
+
+    'search.button': 'Buscar',
+    'search.shortcutHint': 'Buscar (Ctrl+K)',
+    'search.placeholder': 'Buscar aulas, módulos, anotações e legendas...',
+    'search.noResults': 'Nenhum resultado para "{query}".',
+
+    'settings.title': 'Preferências de reprodução',
+    'settings.autoComplete': 'Concluir aula automaticamente',
+    'settings.autoCompleteOff': 'Desativado',
+    'settings.autoCompleteAt': 'Ao assistir {percent}%',
+    'settings.autoplayNext': 'Reproduzir a próxima aula ao terminar',
+    'settings.reviewMode': 'Modo de revisão (repetição espaçada)',
+    'settings.reviewModeHint': 'Aulas concluídas e anotações ou marcadores marcados voltam para revisão em intervalos crescentes',
+
+    'progress.title': 'Progresso do Curso',
+    'progress.toggleMode': 'Alternar cálculo do progresso entre número de aulas e tempo de vídeo',
+    'progress.percentOfLessons': '{percent}% das aulas',
+    'progress.percentOfTime': '{percent}% do tempo',
+    'progress.total': 'Total {duration}',
+    'progress.watched': 'Assistido {duration}',
+    'progress.remaining': 'Restante {duration}',
+
+    'sidebar.hide': 'Esconder barra lateral',
+    'sidebar.show': 'Mostrar barra lateral',
+
+    'notes.title': 'Anotações da Aula',
+    'notes.placeholder': 'Escreva suas anotações aqui...',
+    'notes.timedPlaceholder': 'Nota rápida neste momento do vídeo...',
+    'notes.addAtCurrentTime': 'Anotar no tempo atual',
+    'notes.delete': 'Remover anotação',
+
+    'deepLink.startingAt': 'a partir de {time}',
+    'deepLink.folderNeeded': 'O vídeo desta aula fica em uma pasta do seu computador que ainda não foi aberta nesta sessão. Vincule a pasta do curso para continuar de onde o link aponta.',
+    'deepLink.openFolder': 'Abrir pasta do curso',
+    'deepLink.useSidebar': 'Use "Re-vincular pasta" na barra lateral e selecione a pasta do curso.',
+
+    'dashboard.activity': 'Atividade',
+    'dashboard.noStudy': 'sem estudo',
+    'dashboard.todayGoal': 'Meta de hoje',
+    'dashboard.goalProgress': '{studied} de {goal} min',
+    'dashboard.goalInput': 'Meta diária em minutos',
+    'dashboard.currentStreak': { one: 'dia seguido', other: 'dias seguidos' },
+    'dashboard.longestStreak': 'maior sequência',
+    'dashboard.completedThisWeek': 'concluídas em 7 dias',
+    'dashboard.timePerCourse': 'Tempo por curso',
+    'dashboard.total': 'Total: {duration}',
+    'dashboard.lastWeek': 'Últimos 7 dias: {duration}',
+    'dashboard.finished': 'Concluído',
+    'dashboard.finishEstimate': 'Previsão: {date}',
+    'dashboard.noRecentPace': 'Sem ritmo recente',
+
+    'review.title': 'Revisar hoje',
+    'review.itemCount': { one: '{n} item', other: '{n} itens' },
+    'review.empty': 'Nada para revisar hoje. Aulas concluídas e trechos marcados para revisão aparecem aqui quando chegar a hora.',
+    'review.kind.lesson': 'Aula',
+    'review.kind.note': 'Anotação',
+    'review.kind.bookmark': 'Marcador',
+    'review.again': 'Esqueci',
+    'review.hard': 'Difícil',
+    'review.good': 'Bom',
+    'review.easy': 'Fácil',
+    'review.intervalDays': { one: '{n} dia', other: '{n} dias' },
+    'review.intervalMonths': { one: '{n} mês', other: '{n} meses' },
+    'review.folderNeeded': 'Abra a pasta do curso nesta sessão para reproduzir o trecho.',
+    'review.openLesson': 'Rever a aula',
+    'review.openAtTime': 'Abrir a aula neste ponto',
+    'review.flag': 'Marcar para revisão',
+    'review.unflag': 'Tirar da revisão',
+};
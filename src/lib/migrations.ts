@@ -0,0 +1,69 @@
+import { computeFingerprint, courseSignatures } from '@/lib/fingerprint';
+import { validateCourse } from '@/lib/validation';
+
+// Data migrations for stored course records, applied in order. The stored schema version
+// is the number of migrations already applied. Never edit a released step; append a new one.
+
+export const LEGACY_STORAGE_KEY = 'omniLearn_courses';
+const LEGACY_BACKUP_KEY = 'omniLearn_courses_backup';
+
+// Problems a migration works around but the user should hear about
+export type MigrationIssue = 'legacyCorrupt';
+
+interface Migration {
+    description: string;
+    migrate: (records: unknown[], report: (issue: MigrationIssue) => void) => unknown[];
+}
+
+// Courses saved by versions that kept the whole library in a single localStorage key
+function readLegacyCourses(report: (issue: MigrationIssue) => void): unknown[] {
+    const saved = localStorage.getItem(LEGACY_STORAGE_KEY);
+    if (!saved) return [];
+    try {
+        const parsed: unknown = JSON.parse(saved);
+        return Array.isArray(parsed) ? parsed : [];
+    } catch {
+        report('legacyCorrupt'); // The raw value is still kept aside by retireLegacyStorage
+        return [];
+    }
+}
+
+// Fills fields introduced after a course was first saved
+function normalizeCourseRecord(record: unknown, index: number): unknown {
+    try {
+        const course = validateCourse(record, index);
+        return { ...course, fingerprint: course.fingerprint ?? computeFingerprint(courseSignatures(course)) };
+    } catch {
+        return record; // Left as-is; the repository quarantines records that don't validate
+    }
+}
+
+const MIGRATIONS: Migration[] = [
+    {
+        description: 'Importa os cursos salvos no localStorage',
+        migrate: (records, report) => [...records, ...readLegacyCourses(report)],
+    },
+    {
+        description: 'Calcula a impressão digital dos cursos antigos',
+        migrate: records => records.map(normalizeCourseRecord),
+    },
+];
+
+export const DATA_SCHEMA_VERSION = MIGRATIONS.length;
+
+export function runMigrations(records: unknown[], fromVersion: number, report: (issue: MigrationIssue) => void): unknown[] {
+    return MIGRATIONS.slice(fromVersion).reduce((current, step) => step.migrate(current, report), records);
+}
+
+// Keeps the raw value under another key, so data that couldn't be read can still be recovered by hand
+export function backupLegacyStorage() {
+    const saved = localStorage.getItem(LEGACY_STORAGE_KEY);
+    if (saved !== null) localStorage.setItem(LEGACY_BACKUP_KEY, saved);
+}
+
+// Called once the imported data is safely committed to IndexedDB
+export function retireLegacyStorage() {
+    if (localStorage.getItem(LEGACY_STORAGE_KEY) === null) return;
+    backupLegacyStorage();
+    localStorage.removeItem(LEGACY_STORAGE_KEY);
+}
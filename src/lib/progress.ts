@@ -0,0 +1,24 @@
+import type { Lesson } from '@/lib/types';
+import { getWatchedSeconds } from '@/lib/watchedRanges';
+
+export type ProgressMode = 'lessons' | 'duration';
+
+// Progress over a set of lessons. Watched time counts completed lessons in full plus the portions
+// actually played of unfinished ones; lessons whose duration is still unknown only count towards totals by lesson.
+// Hidden lessons are left out entirely.
+export const getLessonStats = (allLessons: Lesson[], mode: ProgressMode) => {
+    const lessons = allLessons.filter(l => !l.isHidden);
+    const total = lessons.length;
+    const completed = lessons.filter(l => l.isCompleted).length;
+    const totalDuration = lessons.reduce((sum, l) => sum + (l.duration || 0), 0);
+    const watchedDuration = lessons.reduce(
+        (sum, l) => sum + (l.isCompleted ? l.duration || 0 : Math.min(getWatchedSeconds(l.watchedRanges ?? []), l.duration || 0)),
+        0
+    );
+    const remainingDuration = Math.max(0, totalDuration - watchedDuration);
+
+    const percentage = mode === 'duration' && totalDuration > 0
+        ? Math.round((watchedDuration / totalDuration) * 100)
+        : total === 0 ? 0 : Math.round((completed / total) * 100);
+    return { total, completed, percentage, totalDuration, watchedDuration, remainingDuration };
+};
@@ -0,0 +1,145 @@
+import type { Course, Lesson } from '@/lib/types';
+import type { PickedFile } from '@/lib/fileSystemAccess';
+import {
+    createLesson,
+    getModulePath,
+    getPathInCourse,
+    insertLesson,
+    stripExtension
+} from '@/lib/courseStructure';
+import { getCourseLessons, mapCourseLessons } from '@/lib/courseTree';
+import { computeFingerprint, courseSignatures } from '@/lib/fingerprint';
+
+// Differences between a stored course and the files currently in its folder
+
+export interface AddedLesson {
+    lesson: Lesson;
+    modulePath: string[];
+}
+
+export interface RelinkedLesson {
+    lessonId: string;
+    title: string;
+    fromKey: string;
+    file: PickedFile;
+}
+
+export interface Reconciliation {
+    added: AddedLesson[];
+    removed: Lesson[]; // Lessons whose file is gone; they are flagged, not deleted
+    relinked: RelinkedLesson[]; // Renamed or moved files matched to an existing lesson
+    restored: PickedFile[]; // Exact matches (possibly under a renamed root folder)
+}
+
+export const hasReconciliationChanges = (r: Reconciliation) =>
+    r.added.length > 0 || r.removed.length > 0 || r.relinked.length > 0;
+
+const normalizeName = (name: string) =>
+    stripExtension(name).normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim();
+
+const bigrams = (text: string) => {
+    const result = new Map<string, number>();
+    for (let i = 0; i < text.length - 1; i++) {
+        const pair = text.slice(i, i + 2);
+        result.set(pair, (result.get(pair) ?? 0) + 1);
+    }
+    return result;
+};
+
+// Sørensen–Dice coefficient over character bigrams, 0 (unrelated) to 1 (identical)
+export function nameSimilarity(a: string, b: string): number {
+    const x = normalizeName(a);
+    const y = normalizeName(b);
+    if (x === y) return 1;
+    if (x.length < 2 || y.length < 2) return 0;
+    const bx = bigrams(x);
+    const by = bigrams(y);
+    let overlap = 0;
+    bx.forEach((count, pair) => {
+        overlap += Math.min(count, by.get(pair) ?? 0);
+    });
+    return (2 * overlap) / (x.length - 1 + y.length - 1);
+}
+
+// Scores how likely a file is the renamed version of a lesson; null when it is not a candidate.
+// Same size is strong evidence, so a loose name match is enough; without it names must be very close.
+function renameScore(lesson: Lesson, file: File): number | null {
+    const similarity = nameSimilarity(lesson.originalName, file.name);
+    const sameSize = lesson.size !== undefined && lesson.size === file.size;
+    if (sameSize && similarity >= 0.3) return 1 + similarity;
+    if (lesson.size === undefined && similarity >= 0.75) return similarity;
+    if (similarity >= 0.9) return similarity;
+    return null;
+}
+
+export function reconcileCourse(course: Course, files: PickedFile[]): Reconciliation {
+    const lessons = getCourseLessons(course);
+    const filesByPath = new Map(files.map(f => [getPathInCourse(f.relativePath), f]));
+
+    const restored: PickedFile[] = [];
+    const unmatchedLessons: Lesson[] = [];
+    lessons.forEach(lesson => {
+        const file = filesByPath.get(getPathInCourse(lesson.fileKey));
+        if (file) {
+            restored.push(file);
+            filesByPath.delete(getPathInCourse(lesson.fileKey));
+        } else {
+            unmatchedLessons.push(lesson);
+        }
+    });
+
+    // Greedy matching, best scores first
+    const candidates: { lesson: Lesson; file: PickedFile; score: number }[] = [];
+    unmatchedLessons.forEach(lesson => {
+        filesByPath.forEach(file => {
+            const score = renameScore(lesson, file.file);
+            if (score !== null) candidates.push({ lesson, file, score });
+        });
+    });
+    candidates.sort((a, b) => b.score - a.score);
+
+    const relinked: RelinkedLesson[] = [];
+    const usedLessons = new Set<string>();
+    const usedFiles = new Set<PickedFile>();
+    candidates.forEach(({ lesson, file }) => {
+        if (usedLessons.has(lesson.id) || usedFiles.has(file)) return;
+        usedLessons.add(lesson.id);
+        usedFiles.add(file);
+        relinked.push({ lessonId: lesson.id, title: lesson.title, fromKey: lesson.fileKey, file });
+    });
+
+    const removed = unmatchedLessons.filter(l => !usedLessons.has(l.id) && !l.isMissing);
+    const added = Array.from(filesByPath.values())
+        .filter(f => !usedFiles.has(f))
+        .map(f => ({ lesson: createLesson(f), modulePath: getModulePath(f.relativePath) }));
+
+    return { added, removed, relinked, restored };
+}
+
+export function applyReconciliation(course: Course, r: Reconciliation): Course {
+    const restoredKeys = new Map(r.restored.map(f => [getPathInCourse(f.relativePath), f]));
+    const relinkedById = new Map(r.relinked.map(item => [item.lessonId, item]));
+    const removedIds = new Set(r.removed.map(l => l.id));
+
+    const updateLesson = (lesson: Lesson): Lesson => {
+        const relink = relinkedById.get(lesson.id);
+        if (relink) {
+            const { file, relativePath } = relink.file;
+            // Keep a custom title; refresh one that was still derived from the old file name
+            const title = lesson.title === stripExtension(lesson.originalName) ? stripExtension(file.name) : lesson.title;
+            return { ...lesson, fileKey: relativePath, originalName: file.name, title, size: file.size, isMissing: false };
+        }
+        const exact = restoredKeys.get(getPathInCourse(lesson.fileKey));
+        if (exact) {
+            return { ...lesson, fileKey: exact.relativePath, size: exact.file.size, isMissing: false };
+        }
+        return removedIds.has(lesson.id) ? { ...lesson, isMissing: true } : lesson;
+    };
+
+    let updated = mapCourseLessons(course, updateLesson);
+    r.added.forEach(({ lesson, modulePath }) => {
+        updated = { ...updated, modules: insertLesson(updated.modules, modulePath, lesson, course.id) };
+    });
+
+    return { ...updated, fingerprint: computeFingerprint(courseSignatures(updated)) };
+}
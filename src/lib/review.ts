@@ -0,0 +1,85 @@
+import type { Course, Lesson, ReviewSchedule } from '@/lib/types';
+import { getCourseLessons } from '@/lib/courseTree';
+import { addDays, toDayKey } from '@/lib/studyLog';
+
+// Spaced repetition (SM-2) over completed lessons and the notes and bookmarks flagged for review.
+// Schedules live on the lesson itself, so they travel with backups and tab sync.
+
+export type ReviewRating = 'again' | 'hard' | 'good' | 'easy';
+
+// SM-2 quality (0-5) of each answer; below 3 the item starts over
+const RATING_QUALITY: Record<ReviewRating, number> = { again: 1, hard: 3, good: 4, easy: 5 };
+
+const INITIAL_EASE = 2.5;
+const MIN_EASE = 1.3;
+
+// First review is due the day after an item enters the queue
+export const createSchedule = (day: string): ReviewSchedule =>
+    ({ dueDate: addDays(day, 1), interval: 1, repetitions: 0, easeFactor: INITIAL_EASE });
+
+export function scheduleReview(schedule: ReviewSchedule, rating: ReviewRating, today: string): ReviewSchedule {
+    const quality = RATING_QUALITY[rating];
+    const easeFactor = Math.max(MIN_EASE, schedule.easeFactor + 0.1 - (5 - quality) * (0.08 + (5 - quality) * 0.02));
+
+    let interval: number;
+    let repetitions: number;
+    if (quality < 3) {
+        interval = 1;
+        repetitions = 0;
+    } else {
+        interval = schedule.repetitions === 0 ? 1 : schedule.repetitions === 1 ? 6 : Math.round(schedule.interval * easeFactor);
+        repetitions = schedule.repetitions + 1;
+    }
+    return { ...schedule, dueDate: addDays(today, interval), interval, repetitions, easeFactor };
+}
+
+// --- Queue ---
+
+export type ReviewItemKind = 'lesson' | 'note' | 'bookmark';
+
+export interface ReviewItem {
+    key: string;
+    kind: ReviewItemKind;
+    course: Course;
+    lesson: Lesson;
+    itemId?: string; // Note or bookmark id
+    time?: number; // Where the clip starts, for notes and bookmarks
+    text?: string;
+    schedule: ReviewSchedule;
+}
+
+// Completed lessons enter the queue on their own; lessons completed before completion dates
+// were kept are treated as completed yesterday, so they come up right away
+const lessonSchedule = (lesson: Lesson, today: string) =>
+    lesson.review ?? createSchedule(lesson.completedAt ? toDayKey(new Date(lesson.completedAt)) : addDays(today, -1));
+
+// Everything due today or overdue, oldest first
+export function getDueReviews(courses: Course[], today: string): ReviewItem[] {
+    const items: ReviewItem[] = courses.flatMap(course => getCourseLessons(course).filter(l => !l.isHidden).flatMap(lesson => [
+        ...(lesson.isCompleted ? [{ key: lesson.id, kind: 'lesson' as const, course, lesson, schedule: lessonSchedule(lesson, today) }] : []),
+        ...(lesson.timedNotes ?? []).flatMap(n => n.review ? [{
+            key: n.id, kind: 'note' as const, course, lesson, itemId: n.id, time: n.time, text: n.text, schedule: n.review
+        }] : []),
+        ...(lesson.bookmarks ?? []).flatMap(b => b.review ? [{
+            key: b.id, kind: 'bookmark' as const, course, lesson, itemId: b.id, time: b.time, text: b.title, schedule: b.review
+        }] : [])
+    ]));
+    return items.filter(item => item.schedule.dueDate <= today).sort((a, b) => a.schedule.dueDate.localeCompare(b.schedule.dueDate));
+}
+
+// Records an answer on the lesson holding the item
+export function applyReviewRating(lesson: Lesson, item: ReviewItem, rating: ReviewRating, today: string): Lesson {
+    const next = { ...scheduleReview(item.schedule, rating, today), lastReviewedAt: new Date().toISOString() };
+    switch (item.kind) {
+        case 'lesson':
+            return { ...lesson, review: next };
+        case 'note':
+            return { ...lesson, timedNotes: (lesson.timedNotes ?? []).map(n => n.id === item.itemId ? { ...n, review: next } : n) };
+        case 'bookmark':
+            return { ...lesson, bookmarks: (lesson.bookmarks ?? []).map(b => b.id === item.itemId ? { ...b, review: next } : b) };
+    }
+}
+
+// Flags a note or bookmark for review, or takes it out of the queue
+export const toggleReviewFlag = <T extends { review?: ReviewSchedule }>(item: T, today: string): T =>
+    item.review ? { ...item, review: undefined } : { ...item, review: createSchedule(today) };
@@ -0,0 +1,34 @@
+// Hash routes: #/ for the library, #/course/:id, and #/course/:id/lesson/:lessonId?t=123
+
+export interface Route {
+    courseId?: string;
+    lessonId?: string;
+    time?: number; // Seconds into the lesson
+}
+
+export function parseRoute(hash: string): Route {
+    const [path, query = ''] = hash.replace(/^#\/?/, '').split('?');
+    let segments: string[];
+    try {
+        segments = path.split('/').map(decodeURIComponent);
+    } catch {
+        return {}; // Malformed escape, e.g. a truncated bookmark: fall back to the library
+    }
+    const [courseSegment, courseId, lessonSegment, lessonId] = segments;
+    if (courseSegment !== 'course' || !courseId) return {};
+    if (lessonSegment !== 'lesson' || !lessonId) return { courseId };
+
+    const time = Number(new URLSearchParams(query).get('t'));
+    return { courseId, lessonId, ...(Number.isFinite(time) && time > 0 ? { time } : {}) };
+}
+
+export function formatRoute(route: Route): string {
+    if (!route.courseId) return '#/';
+    const course = `#/course/${encodeURIComponent(route.courseId)}`;
+    if (!route.lessonId) return course;
+    const time = Math.floor(route.time ?? 0);
+    return `${course}/lesson/${encodeURIComponent(route.lessonId)}${time > 0 ? `?t=${time}` : ''}`;
+}
+
+// Same place, regardless of the timestamp
+export const isSameRoute = (a: Route, b: Route) => a.courseId === b.courseId && a.lessonId === b.lessonId;
@@ -0,0 +1,70 @@
+import type { Course, Lesson, Module } from '@/lib/types';
+import type { SubtitleCue } from '@/lib/subtitles';
+import { getAllModules } from '@/lib/courseTree';
+import { getModuleTitle } from '@/lib/courseStructure';
+import type { Translate } from '@/lib/i18n';
+
+// Accent- and case-insensitive search over the whole library
+
+export type SearchHitKind = 'course' | 'module' | 'lesson' | 'note' | 'subtitle';
+
+export interface SearchHit {
+    kind: SearchHitKind;
+    course: Course;
+    module?: Module;
+    lesson?: Lesson;
+    time?: number; // Where to open the lesson, for note and subtitle hits
+    text: string; // Snippet to display
+}
+
+export const normalizeForSearch = (text: string) =>
+    text.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase();
+
+const MAX_HITS = 200;
+const SNIPPET_RADIUS = 40;
+
+// Cuts a long text around the first match. Normalizing keeps string length for Latin
+// scripts, so positions found in the normalized text are valid in the original.
+function snippet(text: string, normalizedQuery: string): string {
+    const index = normalizeForSearch(text).indexOf(normalizedQuery);
+    if (index < 0 || text.length <= SNIPPET_RADIUS * 2) return text;
+    const start = Math.max(0, index - SNIPPET_RADIUS);
+    const end = Math.min(text.length, index + normalizedQuery.length + SNIPPET_RADIUS);
+    return `${start > 0 ? '…' : ''}${text.slice(start, end)}${end < text.length ? '…' : ''}`;
+}
+
+// subtitleCues maps lesson ids to the cues of every subtitle available for that lesson.
+// Module titles are matched as shown, so t is needed for the default module.
+export function searchLibrary(courses: Course[], query: string, subtitleCues: Map<string, SubtitleCue[]>, t: Translate): SearchHit[] {
+    const q = normalizeForSearch(query.trim());
+    if (q.length < 2) return [];
+    const matches = (text?: string) => !!text && normalizeForSearch(text).includes(q);
+
+    const hits: SearchHit[] = [];
+    for (const course of courses) {
+        if (matches(course.title)) hits.push({ kind: 'course', course, text: course.title });
+        for (const module of getAllModules(course.modules)) {
+            const moduleTitle = getModuleTitle(module, t);
+            if (matches(moduleTitle)) hits.push({ kind: 'module', course, module, text: moduleTitle });
+            for (const lesson of module.lessons) {
+                const base = { course, module, lesson };
+                if (matches(lesson.title)) {
+                    hits.push({ ...base, kind: 'lesson', text: lesson.title });
+                } else if (matches(lesson.originalName)) {
+                    hits.push({ ...base, kind: 'lesson', text: lesson.originalName });
+                }
+                if (matches(lesson.notes)) {
+                    hits.push({ ...base, kind: 'note', text: snippet(lesson.notes!, q) });
+                }
+                lesson.timedNotes?.forEach(note => {
+                    if (matches(note.text)) hits.push({ ...base, kind: 'note', time: note.time, text: snippet(note.text, q) });
+                });
+                subtitleCues.get(lesson.id)?.forEach(cue => {
+                    if (matches(cue.text)) hits.push({ ...base, kind: 'subtitle', time: cue.start, text: snippet(cue.text, q) });
+                });
+                if (hits.length >= MAX_HITS) return hits;
+            }
+        }
+    }
+    return hits;
+}
@@ -0,0 +1,103 @@
+import { STORES, openDatabase, requestToPromise, transactionDone } from '@/lib/db';
+
+// Session log: time spent watching each lesson, one record per lesson per day
+
+export interface StudyEntry {
+    day: string; // Local date, YYYY-MM-DD
+    courseId: string;
+    lessonId: string;
+    seconds: number; // Real time spent watching (playback speed taken into account)
+}
+
+const pad = (n: number) => String(n).padStart(2, '0');
+
+export const toDayKey = (date: Date) => `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+
+// Day keys are local dates; noon keeps the arithmetic clear of daylight saving shifts
+export const dayKeyToDate = (day: string) => new Date(`${day}T12:00:00`);
+
+export const addDays = (day: string, days: number) => {
+    const date = dayKeyToDate(day);
+    date.setDate(date.getDate() + days);
+    return toDayKey(date);
+};
+
+const entryKey = (entry: Pick<StudyEntry, 'day' | 'lessonId'>) => `${entry.day}|${entry.lessonId}`;
+
+// --- Storage ---
+
+export async function loadStudyLog(): Promise<StudyEntry[]> {
+    const db = await openDatabase();
+    return requestToPromise(db.transaction(STORES.studyLog).objectStore(STORES.studyLog).getAll());
+}
+
+// Adds time to the lesson's record of that day, creating it if needed
+export async function recordStudyTime(entry: StudyEntry): Promise<void> {
+    const db = await openDatabase();
+    const tx = db.transaction(STORES.studyLog, 'readwrite');
+    const store = tx.objectStore(STORES.studyLog);
+    const existing = await requestToPromise<StudyEntry | undefined>(store.get(entryKey(entry)));
+    store.put({ ...entry, seconds: (existing?.seconds ?? 0) + entry.seconds }, entryKey(entry));
+    await transactionDone(tx);
+}
+
+// Same merge as recordStudyTime, for the in-memory copy
+export function addStudyTime(entries: StudyEntry[], entry: StudyEntry): StudyEntry[] {
+    const index = entries.findIndex(e => entryKey(e) === entryKey(entry));
+    if (index < 0) return [...entries, entry];
+    return entries.map((e, i) => i === index ? { ...e, seconds: e.seconds + entry.seconds } : e);
+}
+
+// --- Statistics ---
+
+export function getDailyTotals(entries: StudyEntry[]): Map<string, number> {
+    const totals = new Map<string, number>();
+    entries.forEach(e => totals.set(e.day, (totals.get(e.day) ?? 0) + e.seconds));
+    return totals;
+}
+
+export function getCourseTotals(entries: StudyEntry[]): Map<string, number> {
+    const totals = new Map<string, number>();
+    entries.forEach(e => totals.set(e.courseId, (totals.get(e.courseId) ?? 0) + e.seconds));
+    return totals;
+}
+
+// Streaks count consecutive days on which the daily goal was met. Today only breaks
+// the current streak once it is over, so an unfinished day still shows yesterday's run.
+export function getStreaks(dailyTotals: Map<string, number>, goalSeconds: number, today: string) {
+    const metGoal = (day: string) => (dailyTotals.get(day) ?? 0) >= Math.max(goalSeconds, 1);
+
+    let current = 0;
+    let day = metGoal(today) ? today : addDays(today, -1);
+    while (metGoal(day)) {
+        current++;
+        day = addDays(day, -1);
+    }
+
+    let longest = 0;
+    let run = 0;
+    let previous: string | null = null;
+    Array.from(dailyTotals.keys()).filter(metGoal).sort().forEach(d => {
+        run = previous !== null && addDays(previous, 1) === d ? run + 1 : 1;
+        longest = Math.max(longest, run);
+        previous = d;
+    });
+
+    return { current, longest };
+}
+
+const PACE_WINDOW_DAYS = 14;
+
+// Finish date if the remaining content is watched at the course's average daily pace over the
+// last two weeks. Null without recent activity. Rough by design: pace is real time while the
+// remaining duration is video time, so watching at higher speeds makes the estimate conservative.
+export function estimateFinishDate(entries: StudyEntry[], courseId: string, remainingSeconds: number, today: string): Date | null {
+    if (remainingSeconds <= 0) return null;
+    const since = addDays(today, -(PACE_WINDOW_DAYS - 1));
+    const recentSeconds = entries
+        .filter(e => e.courseId === courseId && e.day >= since)
+        .reduce((sum, e) => sum + e.seconds, 0);
+    const dailyPace = recentSeconds / PACE_WINDOW_DAYS;
+    if (dailyPace < 60) return null;
+    return dayKeyToDate(addDays(today, Math.ceil(remainingSeconds / dailyPace)));
+}
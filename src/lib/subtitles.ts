@@ -0,0 +1,102 @@
+import { stripExtension } from '@/lib/courseStructure';
+
+// Subtitle sidecar files (.srt/.vtt) and conversion to WebVTT, the only format <track> accepts
+
+export const isSubtitleFile = (file: File) => /\.(srt|vtt)$/i.test(file.name);
+
+export interface SidecarSubtitle {
+    fileKey: string;
+    language?: string; // BCP 47 tag taken from the file name, e.g. "pt-BR" in "aula01.pt-BR.srt"
+}
+
+const LANGUAGE_SUFFIX = /^[a-z]{2,3}(-[A-Za-z0-9]{2,8})*$/i;
+
+// Sidecars live in the same folder as the video and are named after it, optionally with a
+// language suffix: "aula01.srt", "aula01.pt-BR.srt", "aula01.en.vtt"
+export function findSidecarSubtitles(videoKey: string, fileKeys: string[]): SidecarSubtitle[] {
+    const slash = videoKey.lastIndexOf('/');
+    const folder = videoKey.slice(0, slash + 1);
+    const videoBase = stripExtension(videoKey.slice(slash + 1)).toLowerCase();
+
+    return fileKeys.flatMap(key => {
+        if (!key.startsWith(folder) || !/\.(srt|vtt)$/i.test(key)) return [];
+        const name = stripExtension(key.slice(folder.length));
+        if (name.includes('/')) return [];
+        if (name.toLowerCase() === videoBase) return [{ fileKey: key }];
+        const dot = name.lastIndexOf('.');
+        const suffix = name.slice(dot + 1);
+        if (dot > 0 && name.slice(0, dot).toLowerCase() === videoBase && LANGUAGE_SUFFIX.test(suffix)) {
+            return [{ fileKey: key, language: suffix }];
+        }
+        return [];
+    });
+}
+
+export function getLanguageLabel(language: string, locale: string): string {
+    try {
+        const name = new Intl.DisplayNames([locale], { type: 'language' }).of(language);
+        return name ? name.charAt(0).toUpperCase() + name.slice(1) : language;
+    } catch {
+        return language;
+    }
+}
+
+// SRT and VTT share the cue layout; SRT uses a comma before milliseconds and has no header
+export function srtToVtt(srt: string): string {
+    const body = srt
+        .replace(/^\uFEFF/, '')
+        .replace(/\r\n?/g, '\n')
+        .replace(/(\d{1,2}:\d{2}:\d{2}),(\d{3})/g, '$1.$2')
+        .trim();
+    return `WEBVTT\n\n${body}\n`;
+}
+
+// Subtitles made on Windows are often Windows-1252 rather than UTF-8
+async function readText(file: File): Promise<string> {
+    const buffer = await file.arrayBuffer();
+    try {
+        return new TextDecoder('utf-8', { fatal: true }).decode(buffer);
+    } catch {
+        return new TextDecoder('windows-1252').decode(buffer);
+    }
+}
+
+export async function readSubtitleAsVtt(file: File): Promise<string> {
+    const text = await readText(file);
+    if (/\.vtt$/i.test(file.name)) return text.replace(/^\uFEFF/, '');
+    return srtToVtt(text);
+}
+
+export interface SubtitleCue {
+    start: number; // Seconds
+    text: string;
+}
+
+const parseCueTime = (value: string) => {
+    const parts = value.trim().split(':').map(Number);
+    return parts.reduce((total, part) => total * 60 + part, 0);
+};
+
+// Minimal cue extraction for search; styling, positioning and NOTE blocks are ignored
+export function parseVttCues(vtt: string): SubtitleCue[] {
+    return vtt.replace(/\r\n?/g, '\n').split(/\n{2,}/).flatMap(block => {
+        const lines = block.split('\n');
+        const timingIndex = lines.findIndex(line => line.includes('-->'));
+        if (timingIndex < 0) return [];
+        const start = parseCueTime(lines[timingIndex].split('-->')[0]);
+        const text = lines.slice(timingIndex + 1).join(' ').replace(/<[^>]+>/g, '').trim();
+        return text ? [{ start, text }] : [];
+    });
+}
+
+// Cues of a sidecar file, cached per File object for the lifetime of the page
+const cueCache = new WeakMap<File, Promise<SubtitleCue[]>>();
+
+export function loadSubtitleCues(file: File): Promise<SubtitleCue[]> {
+    let cues = cueCache.get(file);
+    if (!cues) {
+        cues = readSubtitleAsVtt(file).then(parseVttCues).catch(() => []);
+        cueCache.set(file, cues);
+    }
+    return cues;
+}
@@ -0,0 +1,184 @@
+import { STORES, idbGet, idbPut } from '@/lib/db';
+
+// Frames grabbed from lesson videos with an off-screen <video> and a canvas, cached in IndexedDB.
+// Captures go through a small queue: decoding hundreds of videos at once would freeze the tab.
+
+const THUMBNAIL_WIDTH = 320;
+const MAX_CONCURRENT_CAPTURES = 2;
+// A video that neither loads nor seeks by then is given up on, so it can't hold a capture slot forever
+const VIDEO_EVENT_TIMEOUT_MS = 15_000;
+
+// Same file key and size means the same file, so a replaced video gets a new thumbnail
+export const getThumbnailKey = (fileKey: string, size: number | undefined) =>
+    size === undefined ? null : `${fileKey}|${size}`;
+
+function loadVideo(file: File): Promise<{ video: HTMLVideoElement; release: () => void }> {
+    return new Promise((resolve, reject) => {
+        const url = URL.createObjectURL(file);
+        const video = document.createElement('video');
+        video.preload = 'auto';
+        video.muted = true;
+        const release = () => {
+            video.removeAttribute('src');
+            video.load();
+            URL.revokeObjectURL(url);
+        };
+        const fail = (message: string) => {
+            clearTimeout(timeout);
+            video.onloadeddata = video.onerror = null;
+            release();
+            reject(new Error(message));
+        };
+        const timeout = setTimeout(() => fail(`Tempo esgotado ao carregar ${file.name}`), VIDEO_EVENT_TIMEOUT_MS);
+        video.onloadeddata = () => {
+            clearTimeout(timeout);
+            resolve({ video, release });
+        };
+        video.onerror = () => fail(`Não foi possível decodificar ${file.name}`);
+        video.src = url;
+    });
+}
+
+function seekVideo(video: HTMLVideoElement, time: number): Promise<void> {
+    return new Promise((resolve, reject) => {
+        const settle = (error?: Error) => {
+            clearTimeout(timeout);
+            video.onseeked = video.onerror = null;
+            if (error) reject(error);
+            else resolve();
+        };
+        const timeout = setTimeout(() => settle(new Error('Tempo esgotado ao buscar o quadro')), VIDEO_EVENT_TIMEOUT_MS);
+        video.onseeked = () => settle();
+        video.onerror = () => settle(new Error('Erro ao buscar o quadro'));
+        video.currentTime = time;
+    });
+}
+
+function drawFrame(video: HTMLVideoElement, width: number): HTMLCanvasElement {
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = Math.round(width * (video.videoHeight / video.videoWidth || 9 / 16));
+    canvas.getContext('2d')?.drawImage(video, 0, 0, canvas.width, canvas.height);
+    return canvas;
+}
+
+// A frame a little into the video: the very first one is often black or a title card
+async function captureThumbnail(file: File): Promise<Blob> {
+    const { video, release } = await loadVideo(file);
+    try {
+        await seekVideo(video, Math.min(video.duration * 0.1, 30) || 0);
+        const canvas = drawFrame(video, THUMBNAIL_WIDTH);
+        return await new Promise<Blob>((resolve, reject) =>
+            canvas.toBlob(blob => blob ? resolve(blob) : reject(new Error('Falha ao gerar a miniatura')), 'image/jpeg', 0.7)
+        );
+    } finally {
+        release();
+    }
+}
+
+// --- Queue ---
+
+const pending: (() => Promise<void>)[] = [];
+let running = 0;
+
+function runNext() {
+    while (running < MAX_CONCURRENT_CAPTURES && pending.length > 0) {
+        const task = pending.shift()!;
+        running++;
+        // The slot is released however the task ends, even if it throws before returning a promise
+        Promise.resolve().then(task).finally(() => {
+            running--;
+            // Yield to the page between captures
+            setTimeout(runNext, 0);
+        });
+    }
+}
+
+function enqueue<T>(task: () => Promise<T>): Promise<T> {
+    return new Promise((resolve, reject) => {
+        pending.push(() => task().then(resolve, reject));
+        runNext();
+    });
+}
+
+// --- Lookup ---
+
+// Object URLs for the lifetime of the page, one per key
+const urlCache = new Map<string, Promise<string | null>>();
+const failedKeys = new Set<string>(); // Files the browser cannot decode; not retried in this session
+const interest = new Map<string, number>(); // Callers still waiting for each key
+
+// Resolves with an object URL for the thumbnail, or null when there is none yet. Without a file only the
+// cache is consulted. A capture whose callers all aborted before its turn in the queue is skipped.
+export function loadThumbnail(key: string, file: File | undefined, signal?: AbortSignal): Promise<string | null> {
+    interest.set(key, (interest.get(key) ?? 0) + 1);
+    signal?.addEventListener('abort', () => interest.set(key, (interest.get(key) ?? 1) - 1));
+
+    const cached = urlCache.get(key);
+    if (cached) return cached;
+
+    const promise = (async () => {
+        const stored = await idbGet<Blob>(STORES.thumbnails, key).catch(() => undefined);
+        if (stored) return URL.createObjectURL(stored);
+        if (!file || failedKeys.has(key)) return null;
+
+        const blob = await enqueue(() => (interest.get(key) ?? 0) > 0 ? captureThumbnail(file) : Promise.resolve(null))
+            .catch(() => {
+                failedKeys.add(key);
+                return null;
+            });
+        if (!blob) return null;
+        await idbPut(STORES.thumbnails, key, blob).catch(() => undefined);
+        return URL.createObjectURL(blob);
+    })();
+
+    urlCache.set(key, promise);
+    promise.then(url => {
+        interest.delete(key);
+        if (!url) urlCache.delete(key);
+    });
+    return promise;
+}
+
+// --- Seek bar preview ---
+
+// Frames at arbitrary times of one video, for hover previews. Reuses a single off-screen video;
+// while a seek is in flight only the most recent request is kept.
+export function createFramePreviewer(file: File, width = 160) {
+    const loaded = loadVideo(file);
+    let busy = false;
+    let queued: { time: number; resolve: (url: string | null) => void } | null = null;
+
+    const capture = async (time: number): Promise<string | null> => {
+        const { video } = await loaded;
+        await seekVideo(video, time);
+        return drawFrame(video, width).toDataURL('image/jpeg', 0.6);
+    };
+
+    const process = async (time: number, resolve: (url: string | null) => void) => {
+        busy = true;
+        resolve(await capture(time).catch(() => null));
+        busy = false;
+        if (queued) {
+            const next = queued;
+            queued = null;
+            process(next.time, next.resolve);
+        }
+    };
+
+    return {
+        frameAt(time: number): Promise<string | null> {
+            return new Promise(resolve => {
+                if (!busy) {
+                    process(time, resolve);
+                } else {
+                    queued?.resolve(null); // Superseded
+                    queued = { time, resolve };
+                }
+            });
+        },
+        dispose() {
+            loaded.then(({ release }) => release()).catch(() => undefined);
+        }
+    };
+}
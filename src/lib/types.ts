@@ -0,0 +1,92 @@
+import type { WatchedRange } from '@/lib/watchedRanges';
+
+// --- Course data (persisted) ---
+
+// Spaced-repetition state (SM-2) of something being reviewed
+export interface ReviewSchedule {
+    dueDate: string; // Local date, YYYY-MM-DD
+    interval: number; // Days until the next review
+    repetitions: number; // Successful reviews in a row
+    easeFactor: number;
+    lastReviewedAt?: string;
+}
+
+export interface LessonNote {
+    id: string;
+    time: number; // Seconds into the video
+    text: string;
+    createdAt: string;
+    review?: ReviewSchedule; // Present when the note was flagged for review
+}
+
+// Named moment of a lesson, shown as a marker on the player timeline
+export interface LessonBookmark {
+    id: string;
+    time: number; // Seconds into the video
+    title: string;
+    review?: ReviewSchedule; // Present when the bookmark was flagged for review
+}
+
+// Subtitle loaded by hand for a lesson. Sidecar files found next to the video are not stored;
+// they are looked up in the linked folder every time the lesson is played.
+export interface LessonSubtitle {
+    id: string;
+    label: string;
+    language?: string;
+    vtt: string; // Converted WebVTT content
+}
+
+export type AttachmentKind = 'pdf' | 'image' | 'text' | 'link' | 'slides' | 'document' | 'archive';
+
+// Non-video file from the course folder (slides, exercise code, links...). The index is rebuilt
+// every time the folder is linked, so it always mirrors what is on disk.
+export interface Attachment {
+    fileKey: string; // Key in activeFiles, like Lesson.fileKey
+    name: string;
+    kind: AttachmentKind;
+    size: number;
+}
+
+export interface Lesson {
+    id: string;
+    fileKey: string;
+    originalName: string;
+    title: string;
+    description?: string; // From the course manifest, shown under the title in the player
+    isCompleted: boolean;
+    completedAt?: string; // When it was last marked complete; absent on lessons completed before dates were kept
+    duration: number;
+    size?: number; // File size in bytes, used to recognise renamed files on re-sync
+    isMissing?: boolean; // The file was not found the last time the folder was re-synced
+    notes?: string; // Free-form notes (optional: courses saved before notes existed lack it)
+    timedNotes?: LessonNote[];
+    bookmarks?: LessonBookmark[];
+    lastPosition?: number; // Seconds, saved periodically while playing
+    watchedRanges?: WatchedRange[]; // Portions actually played, used for auto-completion
+    subtitles?: LessonSubtitle[];
+    isHidden?: boolean; // Left out of progress and autoplay; still listed when hidden lessons are shown
+    review?: ReviewSchedule; // Set on the first review; until then a completed lesson is due the day after completion
+    attachments?: Attachment[]; // Files named after the lesson's video
+    updatedAt?: string; // Last time this lesson was saved, used to merge changes made in other tabs
+}
+
+export interface Module {
+    id: string;
+    title: string;
+    path?: string; // Folder path inside the course ("Modulo 1/Parte A"); absent on courses from older versions, empty on modules created by hand
+    lessons: Lesson[];
+    hasCustomOrder?: boolean; // Lessons were arranged by hand; re-synced files are appended instead of sorted in
+    modules?: Module[]; // Sub-folders
+    attachments?: Attachment[]; // Files in the module's folder that don't belong to a specific lesson
+}
+
+export interface Course {
+    id: string;
+    title: string;
+    modules: Module[];
+    createdAt: string;
+    fingerprint?: string; // Hash of video paths and sizes, identifies the course independently of its folder name
+    lastLessonId?: string; // Last lesson played, for "Continuar de onde parei"
+    lastWatchedAt?: string;
+    updatedAt?: string; // Last time anything besides lesson contents was saved (titles, structure, last lesson)
+}
@@ -0,0 +1,86 @@
+import type { Course, Lesson, Module } from '@/lib/types';
+
+// Structural checks for course data coming from outside the app's own state
+// (backups, storage written by older versions).
+
+export type ValidationErrorReason = 'invalidField' | 'notAList';
+
+// The path points at the offending value, e.g. "courses[0].modules[1].lessons[2].title", so the
+// interface can explain the problem in the user's language
+export class ValidationError extends Error {
+    reason: ValidationErrorReason;
+    path: string;
+
+    constructor(reason: ValidationErrorReason, path: string) {
+        super(`${reason}: ${path}`);
+        this.name = 'ValidationError';
+        this.reason = reason;
+        this.path = path;
+    }
+}
+
+export const isObject = (value: unknown): value is Record<string, unknown> =>
+    typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// Notes and bookmarks are merged by id and placed on the timeline by time
+function validateTimedItems(value: unknown, where: string) {
+    if (value === undefined) return;
+    if (!Array.isArray(value)) throw new ValidationError('notAList', where);
+    value.forEach((item, i) => {
+        if (!isObject(item) || typeof item.id !== 'string' || typeof item.time !== 'number') {
+            throw new ValidationError('invalidField', `${where}[${i}]`);
+        }
+    });
+}
+
+const isWatchedRange = (value: unknown) =>
+    Array.isArray(value) && value.length === 2 && value.every(n => typeof n === 'number');
+
+function validateLesson(value: unknown, where: string): Lesson {
+    if (!isObject(value)) throw new ValidationError('invalidField', where);
+    for (const field of ['id', 'fileKey', 'originalName', 'title'] as const) {
+        if (typeof value[field] !== 'string') throw new ValidationError('invalidField', `${where}.${field}`);
+    }
+    if (typeof value.isCompleted !== 'boolean') throw new ValidationError('invalidField', `${where}.isCompleted`);
+    validateTimedItems(value.timedNotes, `${where}.timedNotes`);
+    validateTimedItems(value.bookmarks, `${where}.bookmarks`);
+    if (value.watchedRanges !== undefined) {
+        if (!Array.isArray(value.watchedRanges)) throw new ValidationError('notAList', `${where}.watchedRanges`);
+        const index = value.watchedRanges.findIndex(range => !isWatchedRange(range));
+        if (index >= 0) throw new ValidationError('invalidField', `${where}.watchedRanges[${index}]`);
+    }
+    if (value.attachments !== undefined && !Array.isArray(value.attachments)) {
+        throw new ValidationError('notAList', `${where}.attachments`);
+    }
+    return { ...value, duration: typeof value.duration === 'number' ? value.duration : 0 } as unknown as Lesson;
+}
+
+function validateModule(value: unknown, where: string): Module {
+    if (!isObject(value)) throw new ValidationError('invalidField', where);
+    if (typeof value.id !== 'string') throw new ValidationError('invalidField', `${where}.id`);
+    if (typeof value.title !== 'string') throw new ValidationError('invalidField', `${where}.title`);
+    if (!Array.isArray(value.lessons)) throw new ValidationError('notAList', `${where}.lessons`);
+    if (value.modules !== undefined && !Array.isArray(value.modules)) {
+        throw new ValidationError('notAList', `${where}.modules`);
+    }
+    return {
+        ...value,
+        lessons: value.lessons.map((l, i) => validateLesson(l, `${where}.lessons[${i}]`)),
+        ...(Array.isArray(value.modules)
+            ? { modules: value.modules.map((m, i) => validateModule(m, `${where}.modules[${i}]`)) }
+            : {})
+    } as unknown as Module;
+}
+
+export function validateCourse(value: unknown, index: number): Course {
+    const where = `courses[${index}]`;
+    if (!isObject(value)) throw new ValidationError('invalidField', where);
+    if (typeof value.id !== 'string') throw new ValidationError('invalidField', `${where}.id`);
+    if (typeof value.title !== 'string') throw new ValidationError('invalidField', `${where}.title`);
+    if (!Array.isArray(value.modules)) throw new ValidationError('notAList', `${where}.modules`);
+    return {
+        ...value,
+        createdAt: typeof value.createdAt === 'string' ? value.createdAt : new Date().toISOString(),
+        modules: value.modules.map((m, i) => validateModule(m, `${where}.modules[${i}]`))
+    } as unknown as Course;
+}
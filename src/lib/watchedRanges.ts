@@ -0,0 +1,22 @@
+// Watched portions of a video as sorted, non-overlapping [start, end] ranges in seconds.
+// Used to measure how much of a lesson was actually played, regardless of seeking.
+export type WatchedRange = [number, number];
+
+export function addWatchedRange(ranges: WatchedRange[], start: number, end: number): WatchedRange[] {
+    if (end <= start) return ranges;
+    const merged: WatchedRange[] = [];
+    let current: WatchedRange = [start, end];
+    for (const range of [...ranges].sort((a, b) => a[0] - b[0])) {
+        if (range[1] < current[0] || range[0] > current[1]) {
+            merged.push(range);
+        } else {
+            current = [Math.min(range[0], current[0]), Math.max(range[1], current[1])];
+        }
+    }
+    merged.push(current);
+    return merged.sort((a, b) => a[0] - b[0]);
+}
+
+export function getWatchedSeconds(ranges: WatchedRange[]): number {
+    return ranges.reduce((sum, [start, end]) => sum + (end - start), 0);
+}